@@ -5,15 +5,16 @@ const watch = process.argv.includes('--watch');
 
 async function main() {
 	const ctx = await esbuild.context({
-		entryPoints: ['src/extension.ts'],
+		// Workers are loaded from dist/ by path, so they are bundled separately
+		entryPoints: ['src/extension.ts', 'src/embeddingWorker.ts', 'src/extractionWorker.ts', 'src/rerankerWorker.ts'],
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode', '@xenova/transformers', 'vectra', 'simple-git', '@octokit/rest'],
+		outdir: 'dist',
+		external: ['vscode', '@xenova/transformers', 'vectra', 'simple-git', '@octokit/rest', 'pdf-parse'],
 		logLevel: 'silent',
 		loader: {
 			'.node': 'file'
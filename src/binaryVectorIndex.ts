@@ -0,0 +1,714 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { IndexItem, ItemSelector, MetadataFilter, MetadataTypes, QueryResult } from 'vectra';
+import { HnswGraph, ScoredNode } from './hnswGraph';
+import type { VectorIndex, VectorQuantization } from './vectorIndex';
+
+const STORAGE_FORMAT = 'rag-pilot-vectors';
+const STORAGE_FORMAT_VERSION = 1;
+
+const HNSW_M = 16;
+const HNSW_EF_CONSTRUCTION = 64;
+const HNSW_EF_SEARCH = 128;
+
+/** Up to this many candidates an exact scan is about as fast as the graph. */
+const EXACT_SEARCH_LIMIT = 2000;
+
+/** Indexes smaller than this are never compacted; the garbage is negligible. */
+const COMPACTION_MIN_RECORDS = 1000;
+
+type Metadata = Record<string, MetadataTypes>;
+
+interface StorageHeader {
+    format: string;
+    version: number;
+    dimensions: number;
+    quantization: VectorQuantization;
+}
+
+interface StoredItem {
+    slot: number;
+    metadata: Metadata;
+}
+
+/** One line of `items.log`. Replaying the log in order yields the live items. */
+type LogEntry =
+    | { op: 'put'; id: string; slot: number; metadata: Metadata }
+    | { op: 'meta'; id: string; metadata: Metadata }
+    | { op: 'del'; id: string };
+
+/**
+ * Vector index stored as compact binary records with an HNSW graph for
+ * approximate search. The folder holds:
+ *
+ * - `header.json`: dimensions and quantization of the records
+ * - `vectors.bin`: fixed-size records, one per slot, only ever appended.
+ *   Vectors are normalized, so a dot product is their cosine similarity;
+ *   `int8` records hold a float32 scale followed by one signed byte per dimension
+ * - `items.log`: JSON lines mapping item ids to slots and metadata; deleting
+ *   an item appends a tombstone instead of rewriting anything
+ * - `hnsw.bin`: the search graph, saved at the end of each update that added vectors
+ *
+ * Dead slots are reclaimed by a compaction once they outnumber live ones,
+ * or when `ragPilot.vectorQuantization` changed.
+ */
+export class BinaryVectorIndex implements VectorIndex {
+    private readonly headerPath: string;
+    private readonly vectorsPath: string;
+    private readonly itemsPath: string;
+    private readonly graphPath: string;
+
+    private loaded = false;
+    private updating = false;
+    private dimensions = 0;
+    private storedQuantization: VectorQuantization;
+    private floats = new Float32Array(0);
+    private codes = new Int8Array(0);
+    private scales = new Float32Array(0);
+    /** Item id of every slot, undefined once the slot's item was replaced or deleted. */
+    private slotIds: Array<string | undefined> = [];
+    private items: Map<string, StoredItem> = new Map();
+    private graph!: HnswGraph;
+
+    private persistedSlots = 0;
+    private logLines = 0;
+    private pendingLog: string[] = [];
+    private headerDirty = false;
+    private graphDirty = false;
+
+    constructor(readonly folderPath: string, private readonly quantization: VectorQuantization = 'none') {
+        this.headerPath = path.join(folderPath, 'header.json');
+        this.vectorsPath = path.join(folderPath, 'vectors.bin');
+        this.itemsPath = path.join(folderPath, 'items.log');
+        this.graphPath = path.join(folderPath, 'hnsw.bin');
+        this.storedQuantization = quantization;
+        this.reset();
+    }
+
+    async isIndexCreated(): Promise<boolean> {
+        await this.recoverCompaction();
+        try {
+            await fs.access(this.headerPath);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    async createIndex(): Promise<void> {
+        this.reset();
+        this.updating = false;
+        await fs.rm(this.folderPath, { recursive: true, force: true });
+        await this.writeFiles(this.folderPath);
+        this.loaded = true;
+    }
+
+    async deleteIndex(): Promise<void> {
+        this.reset();
+        this.updating = false;
+        this.loaded = false;
+        await fs.rm(this.folderPath, { recursive: true, force: true });
+    }
+
+    async beginUpdate(): Promise<void> {
+        if (this.updating) {
+            throw new Error('Update already in progress');
+        }
+        await this.load();
+        this.updating = true;
+    }
+
+    async endUpdate(): Promise<void> {
+        if (!this.updating) {
+            throw new Error('No update in progress');
+        }
+
+        try {
+            await this.save();
+        } catch (error) {
+            // Memory no longer matches the disk; read it back on next use
+            this.loaded = false;
+            throw error;
+        } finally {
+            this.updating = false;
+        }
+    }
+
+    cancelUpdate(): void {
+        this.updating = false;
+        this.loaded = false;
+    }
+
+    async insertItem(item: Partial<IndexItem>): Promise<IndexItem> {
+        return await this.mutate(() => {
+            const id = item.id ?? crypto.randomUUID();
+            if (this.items.has(id)) {
+                throw new Error(`Item with id ${id} already exists`);
+            }
+            if (!item.vector) {
+                throw new Error(`Item ${id} has no vector`);
+            }
+            return this.putItem(id, item.vector, item.metadata ?? {});
+        });
+    }
+
+    async upsertItem(item: Partial<IndexItem>): Promise<IndexItem> {
+        return await this.mutate(() => {
+            const id = item.id ?? crypto.randomUUID();
+            const existing = this.items.get(id);
+
+            // Metadata-only changes (e.g. relabelling a repository) keep the vector
+            if (existing && (!item.vector || this.hasVector(existing.slot, item.vector))) {
+                existing.metadata = item.metadata ?? existing.metadata;
+                this.appendLog({ op: 'meta', id, metadata: existing.metadata });
+                return this.toIndexItem(id, existing);
+            }
+            if (!item.vector) {
+                throw new Error(`Item ${id} has no vector`);
+            }
+
+            if (existing) {
+                this.slotIds[existing.slot] = undefined;
+            }
+            return this.putItem(id, item.vector, item.metadata ?? existing?.metadata ?? {});
+        });
+    }
+
+    async deleteItem(id: string): Promise<void> {
+        await this.mutate(() => {
+            const existing = this.items.get(id);
+            if (!existing) {
+                return;
+            }
+            this.items.delete(id);
+            this.slotIds[existing.slot] = undefined;
+            this.appendLog({ op: 'del', id });
+        });
+    }
+
+    async getItem(id: string): Promise<IndexItem | undefined> {
+        await this.load();
+        const stored = this.items.get(id);
+        return stored ? this.toIndexItem(id, stored) : undefined;
+    }
+
+    async listItems(): Promise<IndexItem[]> {
+        await this.load();
+        return Array.from(this.items, ([id, stored]) => this.toIndexItem(id, stored));
+    }
+
+    async queryItems(vector: number[], topK: number, filter?: MetadataFilter): Promise<QueryResult[]> {
+        await this.load();
+        if (this.items.size === 0 || topK <= 0) {
+            return [];
+        }
+
+        const query = this.normalize(vector);
+        const score = (slot: number) => this.queryScore(query, slot);
+
+        let matching: Set<number> | undefined;
+        if (filter) {
+            matching = new Set();
+            const select = compileFilter(filter);
+            for (const stored of this.items.values()) {
+                if (select(stored.metadata)) {
+                    matching.add(stored.slot);
+                }
+            }
+        }
+        const candidateCount = matching?.size ?? this.items.size;
+
+        // The graph also walks through items the filter rejects, so widen the
+        // beam by how much of the index is rejected
+        const ef = Math.ceil(Math.max(HNSW_EF_SEARCH, topK * 2) * this.items.size / Math.max(1, candidateCount));
+
+        let hits: ScoredNode[] = [];
+        if (candidateCount > EXACT_SEARCH_LIMIT && ef < candidateCount / 4) {
+            hits = this.graph.search(score, topK, ef, slot => matching ? matching.has(slot) : this.slotIds[slot] !== undefined);
+        }
+        if (hits.length < Math.min(topK, candidateCount)) {
+            const slots = matching ? Array.from(matching) : Array.from(this.items.values(), stored => stored.slot);
+            hits = slots
+                .map(slot => ({ node: slot, score: score(slot) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, topK);
+        }
+
+        return hits.map(hit => {
+            const id = this.slotIds[hit.node]!;
+            return { item: this.toIndexItem(id, this.items.get(id)!), score: hit.score };
+        });
+    }
+
+    /**
+     * Runs a change inside the current update, or in an update of its own
+     * like vectra does for calls made outside `beginUpdate` / `endUpdate`.
+     */
+    private async mutate<T>(change: () => T): Promise<T> {
+        if (this.updating) {
+            return change();
+        }
+
+        await this.beginUpdate();
+        try {
+            const result = change();
+            await this.endUpdate();
+            return result;
+        } catch (error) {
+            this.cancelUpdate();
+            throw error;
+        }
+    }
+
+    private putItem(id: string, vector: number[], metadata: Metadata): IndexItem {
+        if (this.dimensions === 0) {
+            this.dimensions = vector.length;
+            this.headerDirty = true;
+        }
+
+        const slot = this.appendVector(this.normalize(vector));
+        this.slotIds[slot] = id;
+        const stored = { slot, metadata };
+        this.items.set(id, stored);
+        this.appendLog({ op: 'put', id, slot, metadata });
+
+        this.graph.add(slot);
+        this.graphDirty = true;
+        return this.toIndexItem(id, stored);
+    }
+
+    private toIndexItem(id: string, stored: StoredItem): IndexItem {
+        return { id, metadata: stored.metadata, vector: Array.from(this.decodeVector(stored.slot)), norm: 1 };
+    }
+
+    private appendLog(entry: LogEntry): void {
+        this.pendingLog.push(`${JSON.stringify(entry)}\n`);
+    }
+
+    private normalize(vector: number[]): Float32Array {
+        if (this.dimensions !== 0 && vector.length !== this.dimensions) {
+            throw new Error(`Expected a vector with ${this.dimensions} dimensions, got ${vector.length}`);
+        }
+
+        let sum = 0;
+        for (const value of vector) {
+            sum += value * value;
+        }
+        const norm = Math.sqrt(sum) || 1;
+        return Float32Array.from(vector, value => value / norm);
+    }
+
+    /**
+     * Whether a slot already holds this vector, up to the precision it is stored with.
+     */
+    private hasVector(slot: number, vector: number[]): boolean {
+        if (vector.length !== this.dimensions) {
+            return false;
+        }
+
+        const normalized = this.normalize(vector);
+        const offset = slot * this.dimensions;
+        if (this.storedQuantization === 'int8') {
+            const { codes } = quantize(normalized);
+            return codes.every((code, i) => code === this.codes[offset + i]);
+        }
+        return normalized.every((value, i) => Math.abs(value - this.floats[offset + i]) < 1e-6);
+    }
+
+    private appendVector(vector: Float32Array): number {
+        const slot = this.slotIds.length;
+        this.slotIds.push(undefined);
+        this.ensureCapacity(slot + 1);
+
+        if (this.storedQuantization === 'int8') {
+            const { codes, scale } = quantize(vector);
+            this.codes.set(codes, slot * this.dimensions);
+            this.scales[slot] = scale;
+        } else {
+            this.floats.set(vector, slot * this.dimensions);
+        }
+        return slot;
+    }
+
+    private decodeVector(slot: number): Float32Array {
+        const offset = slot * this.dimensions;
+        if (this.storedQuantization === 'int8') {
+            const scale = this.scales[slot];
+            return Float32Array.from(this.codes.subarray(offset, offset + this.dimensions), code => code * scale);
+        }
+        return this.floats.slice(offset, offset + this.dimensions);
+    }
+
+    private queryScore(query: Float32Array, slot: number): number {
+        const offset = slot * this.dimensions;
+        let sum = 0;
+        if (this.storedQuantization === 'int8') {
+            for (let i = 0; i < this.dimensions; i++) {
+                sum += query[i] * this.codes[offset + i];
+            }
+            return sum * this.scales[slot];
+        }
+        for (let i = 0; i < this.dimensions; i++) {
+            sum += query[i] * this.floats[offset + i];
+        }
+        return sum;
+    }
+
+    private slotSimilarity(a: number, b: number): number {
+        const offsetA = a * this.dimensions;
+        const offsetB = b * this.dimensions;
+        let sum = 0;
+        if (this.storedQuantization === 'int8') {
+            for (let i = 0; i < this.dimensions; i++) {
+                sum += this.codes[offsetA + i] * this.codes[offsetB + i];
+            }
+            return sum * this.scales[a] * this.scales[b];
+        }
+        for (let i = 0; i < this.dimensions; i++) {
+            sum += this.floats[offsetA + i] * this.floats[offsetB + i];
+        }
+        return sum;
+    }
+
+    /**
+     * Grows the record arrays geometrically so appends stay amortized O(1).
+     */
+    private ensureCapacity(slots: number): void {
+        const capacity = this.storedQuantization === 'int8' ? this.scales.length : this.floats.length / Math.max(1, this.dimensions);
+        if (capacity >= slots) {
+            return;
+        }
+
+        const grown = Math.max(slots, capacity * 2, 64);
+        if (this.storedQuantization === 'int8') {
+            const codes = new Int8Array(grown * this.dimensions);
+            codes.set(this.codes);
+            this.codes = codes;
+            const scales = new Float32Array(grown);
+            scales.set(this.scales);
+            this.scales = scales;
+        } else {
+            const floats = new Float32Array(grown * this.dimensions);
+            floats.set(this.floats);
+            this.floats = floats;
+        }
+    }
+
+    private recordSize(quantization: VectorQuantization = this.storedQuantization): number {
+        return quantization === 'int8' ? 4 + this.dimensions : this.dimensions * 4;
+    }
+
+    /**
+     * Serializes the records of slots `start` to `end` in the on-disk layout.
+     */
+    private encodeRecords(start: number, end: number): Buffer {
+        const buffer = Buffer.alloc((end - start) * this.recordSize());
+        if (this.storedQuantization === 'int8') {
+            let offset = 0;
+            for (let slot = start; slot < end; slot++) {
+                buffer.writeFloatLE(this.scales[slot], offset);
+                buffer.set(new Uint8Array(this.codes.buffer, this.codes.byteOffset + slot * this.dimensions, this.dimensions), offset + 4);
+                offset += this.recordSize();
+            }
+        } else {
+            buffer.set(new Uint8Array(this.floats.buffer, this.floats.byteOffset + start * this.dimensions * 4, (end - start) * this.dimensions * 4));
+        }
+        return buffer;
+    }
+
+    private decodeRecords(data: Buffer, slots: number): void {
+        this.ensureCapacity(slots);
+        if (this.storedQuantization === 'int8') {
+            for (let slot = 0; slot < slots; slot++) {
+                const offset = slot * this.recordSize();
+                this.scales[slot] = data.readFloatLE(offset);
+                this.codes.set(new Int8Array(data.buffer, data.byteOffset + offset + 4, this.dimensions), slot * this.dimensions);
+            }
+        } else {
+            // Copy into an aligned buffer; records are little-endian like every supported platform
+            new Uint8Array(this.floats.buffer).set(data.subarray(0, slots * this.recordSize()));
+        }
+    }
+
+    private reset(): void {
+        this.dimensions = 0;
+        this.storedQuantization = this.quantization;
+        this.floats = new Float32Array(0);
+        this.codes = new Int8Array(0);
+        this.scales = new Float32Array(0);
+        this.slotIds = [];
+        this.items = new Map();
+        this.graph = this.createGraph();
+        this.persistedSlots = 0;
+        this.logLines = 0;
+        this.pendingLog = [];
+        this.headerDirty = false;
+        this.graphDirty = false;
+    }
+
+    private createGraph(): HnswGraph {
+        return new HnswGraph((a, b) => this.slotSimilarity(a, b), HNSW_M, HNSW_EF_CONSTRUCTION);
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+
+        this.reset();
+        if (!await this.isIndexCreated()) {
+            throw new Error('Index does not exist');
+        }
+
+        const header: StorageHeader = JSON.parse(await fs.readFile(this.headerPath, 'utf-8'));
+        if (header.format !== STORAGE_FORMAT || header.version > STORAGE_FORMAT_VERSION) {
+            throw new Error(`${this.folderPath} was written by a newer version of RAG Pilot`);
+        }
+        this.dimensions = header.dimensions;
+        this.storedQuantization = header.quantization;
+
+        // A torn append leaves a partial record at the end; it is ignored
+        const data = this.dimensions > 0 ? await fs.readFile(this.vectorsPath) : Buffer.alloc(0);
+        const slots = this.dimensions > 0 ? Math.floor(data.length / this.recordSize()) : 0;
+        this.decodeRecords(data, slots);
+        this.slotIds = new Array(slots).fill(undefined);
+        this.persistedSlots = slots;
+
+        for (const line of (await fs.readFile(this.itemsPath, 'utf-8')).split('\n')) {
+            let entry: LogEntry;
+            try {
+                entry = JSON.parse(line);
+            } catch (error) {
+                // Blank or torn last line
+                continue;
+            }
+            this.logLines++;
+            this.replay(entry);
+        }
+
+        try {
+            const graph = HnswGraph.deserialize(
+                await fs.readFile(this.graphPath),
+                (a, b) => this.slotSimilarity(a, b),
+                HNSW_M,
+                HNSW_EF_CONSTRUCTION
+            );
+            if (graph && graph.nodeCount <= slots) {
+                this.graph = graph;
+            }
+        } catch (error) {
+            // No graph saved yet
+        }
+
+        // Add vectors the saved graph is missing, e.g. after a crash mid-save
+        for (let slot = this.graph.nodeCount; slot < slots; slot++) {
+            if (this.slotIds[slot] !== undefined) {
+                this.graph.add(slot);
+                this.graphDirty = true;
+            }
+        }
+
+        this.loaded = true;
+    }
+
+    private replay(entry: LogEntry): void {
+        if (entry.op === 'put') {
+            if (entry.slot >= this.slotIds.length) {
+                // The vector never made it to disk
+                return;
+            }
+            const previous = this.items.get(entry.id);
+            if (previous) {
+                this.slotIds[previous.slot] = undefined;
+            }
+            this.items.set(entry.id, { slot: entry.slot, metadata: entry.metadata });
+            this.slotIds[entry.slot] = entry.id;
+        } else if (entry.op === 'meta') {
+            const stored = this.items.get(entry.id);
+            if (stored) {
+                stored.metadata = entry.metadata;
+            }
+        } else {
+            const stored = this.items.get(entry.id);
+            if (stored) {
+                this.slotIds[stored.slot] = undefined;
+                this.items.delete(entry.id);
+            }
+        }
+    }
+
+    /**
+     * Appends the update's vectors and log entries; records already on disk
+     * are never rewritten outside a compaction.
+     */
+    private async save(): Promise<void> {
+        if (this.needsCompaction()) {
+            await this.compact();
+            return;
+        }
+
+        if (this.headerDirty) {
+            await this.writeHeader(this.folderPath);
+            this.headerDirty = false;
+        }
+        if (this.slotIds.length > this.persistedSlots) {
+            await fs.appendFile(this.vectorsPath, this.encodeRecords(this.persistedSlots, this.slotIds.length));
+            this.persistedSlots = this.slotIds.length;
+        }
+        if (this.pendingLog.length > 0) {
+            await fs.appendFile(this.itemsPath, this.pendingLog.join(''), 'utf-8');
+            this.logLines += this.pendingLog.length;
+            this.pendingLog = [];
+        }
+        if (this.graphDirty) {
+            const graphTempPath = `${this.graphPath}.tmp`;
+            await fs.writeFile(graphTempPath, this.graph.serialize());
+            await fs.rename(graphTempPath, this.graphPath);
+            this.graphDirty = false;
+        }
+    }
+
+    private needsCompaction(): boolean {
+        if (this.storedQuantization !== this.quantization && this.dimensions > 0) {
+            return true;
+        }
+        const deadSlots = this.slotIds.length - this.items.size;
+        const logLines = this.logLines + this.pendingLog.length;
+        return (this.slotIds.length >= COMPACTION_MIN_RECORDS && deadSlots > this.items.size) ||
+            (logLines >= COMPACTION_MIN_RECORDS && logLines > this.items.size * 4);
+    }
+
+    /**
+     * Rewrites the index with only live slots, renumbered densely, and in
+     * the configured quantization. The new files are written to a sibling
+     * folder that replaces the old one, so a crash leaves one complete copy.
+     */
+    private async compact(): Promise<void> {
+        console.log(`Compacting vector index ${this.folderPath}: ${this.items.size} live of ${this.slotIds.length} records`);
+
+        const mapping = new Int32Array(this.slotIds.length).fill(-1);
+        const liveSlots: number[] = [];
+        for (let slot = 0; slot < this.slotIds.length; slot++) {
+            if (this.slotIds[slot] !== undefined) {
+                mapping[slot] = liveSlots.length;
+                liveSlots.push(slot);
+            }
+        }
+
+        const vectors = liveSlots.map(slot => this.decodeVector(slot));
+        const slotIds = liveSlots.map(slot => this.slotIds[slot]);
+        this.storedQuantization = this.quantization;
+        this.floats = new Float32Array(0);
+        this.codes = new Int8Array(0);
+        this.scales = new Float32Array(0);
+        this.slotIds = [];
+        for (const vector of vectors) {
+            this.appendVector(vector);
+        }
+        this.slotIds = slotIds;
+        for (const stored of this.items.values()) {
+            stored.slot = mapping[stored.slot];
+        }
+        this.graph.compact(mapping, slotIds.length);
+
+        const compactPath = `${this.folderPath}.compact`;
+        const previousPath = `${this.folderPath}.previous`;
+        await fs.rm(compactPath, { recursive: true, force: true });
+        await this.writeFiles(compactPath);
+        await fs.rm(previousPath, { recursive: true, force: true });
+        await fs.rename(this.folderPath, previousPath);
+        await fs.rename(compactPath, this.folderPath);
+        await fs.rm(previousPath, { recursive: true, force: true });
+    }
+
+    /**
+     * Writes all index files from memory into a folder.
+     */
+    private async writeFiles(folderPath: string): Promise<void> {
+        await fs.mkdir(folderPath, { recursive: true });
+        await fs.writeFile(path.join(folderPath, 'vectors.bin'), this.encodeRecords(0, this.slotIds.length));
+        const lines = Array.from(this.items, ([id, stored]) => `${JSON.stringify({ op: 'put', id, slot: stored.slot, metadata: stored.metadata })}\n`);
+        await fs.writeFile(path.join(folderPath, 'items.log'), lines.join(''), 'utf-8');
+        await fs.writeFile(path.join(folderPath, 'hnsw.bin'), this.graph.serialize());
+        // The header goes last: a folder without one is not an index yet
+        await this.writeHeader(folderPath);
+
+        this.persistedSlots = this.slotIds.length;
+        this.logLines = lines.length;
+        this.pendingLog = [];
+        this.headerDirty = false;
+        this.graphDirty = false;
+    }
+
+    private async writeHeader(folderPath: string): Promise<void> {
+        const header: StorageHeader = {
+            format: STORAGE_FORMAT,
+            version: STORAGE_FORMAT_VERSION,
+            dimensions: this.dimensions,
+            quantization: this.storedQuantization
+        };
+        await fs.writeFile(path.join(folderPath, 'header.json'), JSON.stringify(header, null, 2), 'utf-8');
+    }
+
+    /**
+     * Finishes a compaction that was interrupted between swapping the folders.
+     */
+    private async recoverCompaction(): Promise<void> {
+        try {
+            await fs.access(this.folderPath);
+        } catch (error) {
+            try {
+                await fs.access(path.join(`${this.folderPath}.compact`, 'header.json'));
+                await fs.rename(`${this.folderPath}.compact`, this.folderPath);
+            } catch (recoveryError) {
+                // No interrupted compaction either
+            }
+        }
+    }
+}
+
+/**
+ * Symmetric int8 quantization of a normalized vector: the largest component
+ * maps to ±127 and the scale restores the original magnitude.
+ */
+function quantize(vector: Float32Array): { codes: Int8Array; scale: number } {
+    let max = 0;
+    for (const value of vector) {
+        max = Math.max(max, Math.abs(value));
+    }
+    const scale = max / 127 || 1;
+    return { codes: Int8Array.from(vector, value => Math.round(value / scale)), scale };
+}
+
+/**
+ * Compiles a vectra metadata filter into a predicate that matches like
+ * `ItemSelector.select`, but looks up `$in` lists in a set. A folder scope
+ * lists every file under the folder, and the filter runs once per item.
+ */
+function compileFilter(filter: MetadataFilter): (metadata: Metadata) => boolean {
+    const checks: Array<(metadata: Metadata) => boolean> = [];
+    for (const [key, condition] of Object.entries(filter)) {
+        if (key === '$and' || key === '$or') {
+            const parts = (condition as MetadataFilter[]).map(compileFilter);
+            checks.push(key === '$and'
+                ? metadata => parts.every(part => part(metadata))
+                : metadata => parts.some(part => part(metadata)));
+            continue;
+        }
+
+        const single: MetadataFilter = { [key]: condition };
+        const list = (condition as MetadataFilter | undefined)?.$in;
+        if (Array.isArray(list) && Object.keys(condition as MetadataFilter).length === 1) {
+            const values = new Set(list);
+            checks.push(metadata => {
+                const value = metadata[key];
+                // vectra matches other value types against `$in` by substring
+                return typeof value === 'string' ? values.has(value) : ItemSelector.select(metadata, single);
+            });
+        } else {
+            checks.push(metadata => ItemSelector.select(metadata, single));
+        }
+    }
+    return metadata => checks.every(check => check(metadata));
+}
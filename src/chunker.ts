@@ -0,0 +1,405 @@
+import * as path from 'path';
+import { DocumentSection } from './documentExtractors';
+
+export interface DocumentChunk {
+    text: string;
+    /** Unset for chunks of extracted documents, which are cited by page or section. */
+    startLine?: number;
+    endLine?: number;
+    symbol?: string;
+    page?: number;
+    section?: string;
+    cell?: number;
+}
+
+/**
+ * Bump whenever chunk boundaries change, so that files indexed with an older
+ * chunker are re-chunked even if their content is unchanged.
+ */
+export const CHUNKER_VERSION = 4;
+
+const MAX_CHUNK_LINES = 100;
+const MIN_CHUNK_LINES = 20;
+const WINDOW_OVERLAP = 20;
+
+interface Declaration {
+    line: number;
+    level: number;
+    name: string;
+}
+
+interface Segment {
+    start: number;
+    end: number;
+    symbolPath: string[];
+    /** Starts at a declaration, as opposed to the code before or between declarations. */
+    declaration: boolean;
+    /** Symbols of one-line declarations merged into this segment after its own. */
+    mergedSymbols?: string[][];
+}
+
+interface ChunkingStrategy {
+    findDeclarations(lines: string[]): Declaration[];
+    symbolSeparator: string;
+    attachLeadingComments: boolean;
+}
+
+const CONTROL_KEYWORDS = new Set([
+    'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'catch', 'try',
+    'return', 'throw', 'new', 'delete', 'await', 'yield', 'typeof', 'sizeof', 'using', 'lock'
+]);
+
+/**
+ * Declaration patterns per language family. Every pattern captures the
+ * indentation as `indent` and the declared identifier as `name`.
+ */
+const TS_JS_PATTERNS = [
+    /^(?<indent>\s*)(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|namespace)\s+(?<name>[A-Za-z_$][\w$]*)/,
+    /^(?<indent>\s*)(?:export\s+)?(?:const|let|var)\s+(?<name>[A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\($)/,
+    /^(?<indent>\s+)(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)+(?<name>[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\((?:.*[{,])?\s*$/,
+    // Methods without a modifier need a whole `name(params): Type {` signature, or a typed first
+    // parameter if it spans lines, so that calls such as `describe('x', () => {` do not match
+    /^(?<indent>\s+)(?<name>[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^()]*(?:\([^()]*\)[^()]*)*\)\s*(?::\s*[^=;{]+)?\{\s*$/,
+    /^(?<indent>\s+)(?<name>[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(\s*(?:(?:public|private|protected|readonly)\s+)?[A-Za-z_$][\w$]*\??\s*:[^)]*$/,
+    /^(?<indent>\s+)(?<name>constructor)\s*\(/
+];
+
+const C_FAMILY_PATTERNS = [
+    /^(?<indent>\s*)(?:[\w@\[\]<>,.]+\s+)*(?:class|struct|interface|enum|record|namespace)\s+(?<name>[A-Za-z_][\w]*)/,
+    /^(?<indent>\s*)(?:[\w:<>\[\],*&~.]+\s+)+[*&]*(?<name>[A-Za-z_~][\w:~]*)\s*\([^;]*$/
+];
+
+const LANGUAGE_PATTERNS: Record<string, RegExp[]> = {
+    '.ts': TS_JS_PATTERNS,
+    '.tsx': TS_JS_PATTERNS,
+    '.js': TS_JS_PATTERNS,
+    '.jsx': TS_JS_PATTERNS,
+    '.py': [/^(?<indent>\s*)(?:async\s+)?(?:def|class)\s+(?<name>[A-Za-z_]\w*)/],
+    '.java': C_FAMILY_PATTERNS,
+    '.cs': C_FAMILY_PATTERNS,
+    '.cpp': C_FAMILY_PATTERNS,
+    '.c': C_FAMILY_PATTERNS,
+    '.h': C_FAMILY_PATTERNS,
+    '.go': [
+        /^(?<indent>)func\s+(?:\([^)]*\)\s*)?(?<name>[A-Za-z_]\w*)/,
+        /^(?<indent>)type\s+(?<name>[A-Za-z_]\w*)\s+(?:struct|interface)\b/
+    ],
+    '.rs': [
+        /^(?<indent>\s*)(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:const\s+)?(?:fn|struct|enum|trait|mod|union)\s+(?<name>[A-Za-z_]\w*)/,
+        /^(?<indent>\s*)(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?(?<name>[A-Za-z_][\w:]*)/
+    ],
+    '.rb': [/^(?<indent>\s*)(?:def|class|module)\s+(?:self\.)?(?<name>[\w:]+[?!=]?)/],
+    '.php': [/^(?<indent>\s*)(?:(?:abstract|final|public|private|protected|static)\s+)*(?:function|class|interface|trait|enum)\s+&?(?<name>[A-Za-z_]\w*)/],
+    '.swift': [/^(?<indent>\s*)(?:(?:@\w+|public|private|internal|fileprivate|open|static|final|override|mutating|class)\s+)*(?:func|class|struct|enum|protocol|extension|actor)\s+(?<name>[A-Za-z_][\w.]*)/]
+};
+
+const LEADING_COMMENT_PATTERN = /^\s*(?:\/\/|\/\*|\*|#(?!include|define|if|endif|else|elif|pragma|undef)|@\w|\[\w|'''|""")/;
+
+/**
+ * Splits a document into chunks that follow its structure: declarations for
+ * code, headings for Markdown and top-level keys for JSON/YAML. Files in other
+ * formats, and structural units larger than the chunk limit, fall back to
+ * overlapping line windows.
+ */
+export function chunkDocument(text: string, fileName: string): DocumentChunk[] {
+    const lines = text.split('\n');
+    const strategy = getStrategy(fileName);
+
+    if (!strategy) {
+        return toChunks(lines, windowSegment({ start: 0, end: lines.length, symbolPath: [], declaration: false }), '.');
+    }
+
+    const declarations = strategy.findDeclarations(lines);
+    const segments: Segment[] = [];
+    splitRange(lines, declarations, 0, lines.length, [], false, true, strategy, segments);
+
+    const merged = mergeSmallSegments(lines, segments);
+    const windowed = merged.flatMap(segment => windowSegment(segment));
+
+    return toChunks(lines, windowed, strategy.symbolSeparator);
+}
+
+/**
+ * Chunks the sections of an extracted document (PDF, Word, HTML, notebook)
+ * one by one, so that every chunk keeps its page, section or cell. Extracted
+ * text has no structure the chunker knows, so long sections are split into
+ * line windows.
+ */
+export function chunkSections(sections: DocumentSection[]): DocumentChunk[] {
+    return sections.flatMap(section => {
+        const lines = section.text.split('\n');
+        return toChunks(lines, windowSegment({ start: 0, end: lines.length, symbolPath: [], declaration: false }), '.').map(chunk => ({
+            text: chunk.text,
+            ...(section.page ? { page: section.page } : {}),
+            ...(section.section ? { section: section.section } : {}),
+            ...(section.cell !== undefined ? { cell: section.cell } : {})
+        }));
+    });
+}
+
+function getStrategy(fileName: string): ChunkingStrategy | undefined {
+    const ext = path.extname(fileName).toLowerCase();
+
+    if (ext === '.md') {
+        return { findDeclarations: findMarkdownHeadings, symbolSeparator: ' > ', attachLeadingComments: false };
+    }
+    if (ext === '.json') {
+        return { findDeclarations: findJsonKeys, symbolSeparator: '.', attachLeadingComments: false };
+    }
+    if (ext === '.yaml' || ext === '.yml') {
+        return { findDeclarations: findYamlKeys, symbolSeparator: '.', attachLeadingComments: true };
+    }
+
+    const patterns = LANGUAGE_PATTERNS[ext];
+    if (patterns) {
+        return {
+            findDeclarations: lines => findCodeDeclarations(lines, patterns),
+            symbolSeparator: '.',
+            attachLeadingComments: true
+        };
+    }
+
+    return undefined;
+}
+
+function findCodeDeclarations(lines: string[], patterns: RegExp[]): Declaration[] {
+    const declarations: Declaration[] = [];
+
+    lines.forEach((line, index) => {
+        for (const pattern of patterns) {
+            const match = line.match(pattern);
+            if (match?.groups && !CONTROL_KEYWORDS.has(match.groups.name)) {
+                declarations.push({
+                    line: index,
+                    level: indentWidth(match.groups.indent),
+                    name: match.groups.name
+                });
+                break;
+            }
+        }
+    });
+
+    return declarations;
+}
+
+function findMarkdownHeadings(lines: string[]): Declaration[] {
+    const declarations: Declaration[] = [];
+    let inFence = false;
+
+    lines.forEach((line, index) => {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return;
+        }
+        const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (match) {
+            declarations.push({ line: index, level: match[1].length, name: match[2] });
+        }
+    });
+
+    return declarations;
+}
+
+function findJsonKeys(lines: string[]): Declaration[] {
+    const declarations: Declaration[] = [];
+
+    lines.forEach((line, index) => {
+        const match = line.match(/^(\s*)"((?:[^"\\]|\\.)+)"\s*:/);
+        if (match) {
+            declarations.push({ line: index, level: indentWidth(match[1]), name: match[2] });
+        }
+    });
+
+    return declarations;
+}
+
+function findYamlKeys(lines: string[]): Declaration[] {
+    const declarations: Declaration[] = [];
+
+    lines.forEach((line, index) => {
+        const match = line.match(/^(\s*)(?:-\s+)?(["']?)([^\s#:"'][^:#"']*?)\2\s*:(?:\s|$)/);
+        if (match) {
+            declarations.push({ line: index, level: indentWidth(match[1]), name: match[3] });
+        }
+    });
+
+    return declarations;
+}
+
+function indentWidth(indent: string): number {
+    return indent.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Splits [start, end) at its outermost declarations. Each declaration becomes
+ * its own segment and is split further at nested declarations only if it is
+ * still larger than the chunk limit.
+ */
+function splitRange(
+    lines: string[],
+    declarations: Declaration[],
+    start: number,
+    end: number,
+    symbolPath: string[],
+    declaration: boolean,
+    force: boolean,
+    strategy: ChunkingStrategy,
+    segments: Segment[]
+): void {
+    const inner = declarations.filter(d => d.line >= start && d.line < end);
+
+    if (inner.length === 0 || (!force && end - start <= MAX_CHUNK_LINES)) {
+        segments.push({ start, end, symbolPath, declaration });
+        return;
+    }
+
+    const level = Math.min(...inner.map(d => d.level));
+    const siblings = inner.filter(d => d.level === level);
+    const boundaries = siblings.map((d, i) => {
+        const floor = i === 0 ? start : siblings[i - 1].line + 1;
+        return strategy.attachLeadingComments ? attachLeadingComments(lines, d.line, floor) : d.line;
+    });
+
+    if (boundaries[0] > start) {
+        // Code before the first declaration: imports, or the header of a split class
+        segments.push({ start, end: boundaries[0], symbolPath, declaration: false });
+    }
+
+    siblings.forEach((declaration, i) => {
+        const segmentEnd = i + 1 < siblings.length ? boundaries[i + 1] : end;
+        const nested = declarations.filter(d => d.line > declaration.line && d.level > level);
+        splitRange(lines, nested, boundaries[i], segmentEnd, [...symbolPath, declaration.name], true, false, strategy, segments);
+    });
+}
+
+function attachLeadingComments(lines: string[], line: number, floor: number): number {
+    let boundary = line;
+    while (boundary > floor && LEADING_COMMENT_PATTERN.test(lines[boundary - 1])) {
+        boundary--;
+    }
+    return boundary;
+}
+
+/**
+ * Every declaration stays its own chunk with its own symbol. Only code
+ * outside declarations (imports, statements between functions, the header
+ * of a split class) is merged into a neighbouring segment of the same scope
+ * when it is too small on its own, and runs of one-line declarations such as
+ * type aliases or JSON keys are merged, recording each of their symbols.
+ */
+function mergeSmallSegments(lines: string[], segments: Segment[]): Segment[] {
+    const merged: Segment[] = [];
+    // A small leading gap waiting to be prepended to the next segment
+    let carried: Segment | undefined;
+
+    for (const original of segments) {
+        const segment: Segment = { ...original };
+        if (carried) {
+            if (isWithin(segment.symbolPath, carried.symbolPath) && segment.end - carried.start <= MAX_CHUNK_LINES) {
+                segment.start = carried.start;
+            } else {
+                merged.push(carried);
+            }
+            carried = undefined;
+        }
+
+        const previous = merged[merged.length - 1];
+        const fitsPrevious = previous && segment.end - previous.start <= MAX_CHUNK_LINES;
+
+        if (!segment.declaration && segment.end - segment.start < MIN_CHUNK_LINES) {
+            if (fitsPrevious && isWithin(previous.symbolPath, segment.symbolPath)) {
+                previous.end = segment.end;
+            } else {
+                carried = segment;
+            }
+            continue;
+        }
+
+        if (fitsPrevious && segment.declaration && previous.declaration &&
+            isOneLiner(lines, previous) && isOneLiner(lines, segment) &&
+            isWithin(segment.symbolPath, previous.symbolPath.slice(0, -1)) &&
+            segment.symbolPath.length === previous.symbolPath.length) {
+            previous.end = segment.end;
+            previous.mergedSymbols = [...(previous.mergedSymbols ?? []), segment.symbolPath];
+            continue;
+        }
+
+        merged.push(segment);
+    }
+
+    if (carried) {
+        merged.push(carried);
+    }
+    return merged;
+}
+
+/** Whether `symbolPath` is `scope` or nested inside it. */
+function isWithin(symbolPath: string[], scope: string[]): boolean {
+    return scope.every((name, i) => symbolPath[i] === name);
+}
+
+/**
+ * Whether every declaration merged into the segment so far, like the
+ * segment itself, is a single line of content.
+ */
+function isOneLiner(lines: string[], segment: Segment): boolean {
+    const contentLines = lines.slice(segment.start, segment.end).filter(line => line.trim().length > 0).length;
+    return contentLines <= 1 + (segment.mergedSymbols?.length ?? 0);
+}
+
+function windowSegment(segment: Segment): Segment[] {
+    if (segment.end - segment.start <= MAX_CHUNK_LINES) {
+        return [segment];
+    }
+
+    const windows: Segment[] = [];
+    for (let i = segment.start; i < segment.end; i += MAX_CHUNK_LINES - WINDOW_OVERLAP) {
+        windows.push({
+            start: i,
+            end: Math.min(i + MAX_CHUNK_LINES, segment.end),
+            symbolPath: segment.symbolPath,
+            declaration: segment.declaration
+        });
+        if (i + MAX_CHUNK_LINES >= segment.end) {
+            break;
+        }
+    }
+    return windows;
+}
+
+function toChunks(lines: string[], segments: Segment[], symbolSeparator: string): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+
+    for (const segment of segments) {
+        let start = segment.start;
+        let end = segment.end;
+
+        // Trim blank lines so that start and end lines point at content
+        while (start < end && lines[start].trim().length === 0) {
+            start++;
+        }
+        while (end > start && lines[end - 1].trim().length === 0) {
+            end--;
+        }
+        if (start === end) {
+            continue;
+        }
+
+        chunks.push({
+            text: lines.slice(start, end).join('\n'),
+            startLine: start + 1,
+            endLine: end,
+            symbol: formatSymbol(segment, symbolSeparator)
+        });
+    }
+
+    return chunks;
+}
+
+/** `Outer.inner`, or `a, b, c` for merged one-line declarations. */
+function formatSymbol(segment: Segment, symbolSeparator: string): string | undefined {
+    const symbols = [segment.symbolPath, ...(segment.mergedSymbols ?? [])]
+        .filter(symbolPath => symbolPath.length > 0)
+        .map(symbolPath => symbolPath.join(symbolSeparator));
+    return symbols.length > 0 ? symbols.join(', ') : undefined;
+}
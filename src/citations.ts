@@ -0,0 +1,46 @@
+import type { DocumentMetadata } from './indexPartition';
+
+/**
+ * Where in its document a section is, e.g. `page 12`, `cell 4` or `§ Setup > Linux`;
+ * undefined for plain text files, which are cited by line.
+ */
+export function describeSectionAnchor(anchor: Pick<DocumentMetadata, 'page' | 'section' | 'cell'>): string | undefined {
+    if (anchor.cell !== undefined) {
+        return `cell ${anchor.cell + 1}`;
+    }
+    if (anchor.page) {
+        return `page ${anchor.page}`;
+    }
+    return anchor.section ? `§ ${anchor.section}` : undefined;
+}
+
+/**
+ * How a chunk is cited in chat, search results and the search tool:
+ * `path:12-30`, or `path, page 3` for extracted documents, behind
+ * `[repo@ref] ` for repository files.
+ */
+export function formatCitation(
+    metadata: Pick<DocumentMetadata, 'file' | 'line' | 'endLine' | 'source' | 'repo' | 'ref' | 'page' | 'section' | 'cell'>
+): string {
+    const location = `${metadata.file}${formatLocationSuffix(metadata)}`;
+    return metadata.source === 'github'
+        ? `[${metadata.repo}${metadata.ref ? `@${metadata.ref}` : ''}] ${location}`
+        : location;
+}
+
+/**
+ * The part of a citation after the file name: `:12-30`, `:12` or `, page 3`;
+ * empty when the chunk has neither lines nor an anchor.
+ */
+export function formatLocationSuffix(
+    metadata: Pick<DocumentMetadata, 'line' | 'endLine' | 'page' | 'section' | 'cell'>
+): string {
+    const anchor = describeSectionAnchor(metadata);
+    if (anchor) {
+        return `, ${anchor}`;
+    }
+    if (metadata.line && metadata.endLine) {
+        return `:${metadata.line}-${metadata.endLine}`;
+    }
+    return metadata.line ? `:${metadata.line}` : '';
+}
@@ -0,0 +1,270 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+/** Elements whose content is never text a reader sees. */
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'canvas']);
+
+/** Elements that start a new line of text. */
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+    'footer', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'
+]);
+
+/** Characters kept of each text output of a notebook cell; longer outputs are cut. */
+const MAX_CELL_OUTPUT_CHARS = 2000;
+
+/** A part of an extracted document that citations can point to. */
+export interface DocumentSection {
+    text: string;
+    /** 1-based page number, for formats with pages. */
+    page?: number;
+    /** Headings the section falls under, outermost first, joined by ` > `. */
+    section?: string;
+    /** 0-based index of a notebook cell. */
+    cell?: number;
+}
+
+/**
+ * Turns a document that is not plain text into clean text sections. Runs
+ * locally: nothing is sent to an external service.
+ */
+export interface DocumentExtractor {
+    extract(data: Buffer): Promise<DocumentSection[]>;
+}
+
+const extractors: Map<string, DocumentExtractor> = new Map();
+
+/**
+ * Registers an extractor for file extensions such as `.pdf`, replacing the
+ * built-in one for an extension that already has one.
+ */
+export function registerDocumentExtractor(extensions: string[], extractor: DocumentExtractor): void {
+    for (const extension of extensions) {
+        extractors.set(extension.toLowerCase(), extractor);
+    }
+}
+
+export function getDocumentExtractor(fileName: string): DocumentExtractor | undefined {
+    return extractors.get(path.extname(fileName).toLowerCase());
+}
+
+/**
+ * Whether the file's extractor is one of the built-in ones, which the
+ * extraction worker has as well; registered extractors run on the host.
+ */
+export function hasBuiltInExtractor(fileName: string): boolean {
+    const extension = path.extname(fileName).toLowerCase();
+    return extractors.has(extension) && extractors.get(extension) === builtInExtractors.get(extension);
+}
+
+/**
+ * Reads a file with a registered extractor and returns its non-empty sections.
+ */
+export async function extractDocument(filePath: string): Promise<DocumentSection[]> {
+    const extractor = getDocumentExtractor(filePath);
+    if (!extractor) {
+        throw new Error(`No document extractor for ${path.basename(filePath)}`);
+    }
+    const sections = await extractor.extract(await fs.readFile(filePath));
+    return sections.filter(section => section.text.trim().length > 0);
+}
+
+/**
+ * One section per page. Text items on the same baseline are joined and a
+ * new baseline starts a new line, as pdf-parse does by default.
+ */
+async function extractPdf(data: Buffer): Promise<DocumentSection[]> {
+    // Parser libraries are imported on first use, so only the extraction worker loads them
+    const { default: pdfParse } = await import('pdf-parse');
+    const sections: DocumentSection[] = [];
+
+    await pdfParse(data, {
+        pagerender: async (pageData: any) => {
+            const content = await pageData.getTextContent({ normalizeWhitespace: true });
+            let text = '';
+            let lastY: number | undefined;
+            for (const item of content.items) {
+                const y = item.transform[5];
+                text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+                lastY = y;
+            }
+            sections.push({ text: cleanText(text), page: pageData.pageIndex + 1 });
+            return text;
+        }
+    });
+
+    return sections.sort((a, b) => a.page! - b.page!);
+}
+
+/**
+ * Word documents are converted to HTML, which maps Word's heading styles to
+ * `<h1>`–`<h6>`, and then split like any HTML page.
+ */
+async function extractDocx(data: Buffer): Promise<DocumentSection[]> {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.convertToHtml({ buffer: data });
+    return extractHtml(result.value);
+}
+
+/**
+ * One section per heading, labelled with the path of headings above it.
+ * Scripts, styles and the document head are dropped.
+ */
+async function extractHtml(html: string): Promise<DocumentSection[]> {
+    const { Parser } = await import('htmlparser2');
+    const sections: DocumentSection[] = [];
+    const headings: string[] = [];
+    let text = '';
+    let heading: { level: number; text: string } | undefined;
+    let skipDepth = 0;
+    let preDepth = 0;
+
+    const flush = () => {
+        const clean = cleanText(text);
+        const section = headings.filter(Boolean).join(' > ');
+        if (clean) {
+            sections.push({ text: clean, ...(section ? { section } : {}) });
+        }
+        text = '';
+    };
+
+    const parser = new Parser({
+        onopentag(name) {
+            if (SKIPPED_ELEMENTS.has(name)) {
+                skipDepth++;
+                return;
+            }
+            if (skipDepth > 0) {
+                return;
+            }
+
+            const level = headingLevel(name);
+            if (level) {
+                flush();
+                heading = { level, text: '' };
+            } else if (name === 'pre') {
+                preDepth++;
+            }
+            if (BLOCK_ELEMENTS.has(name)) {
+                text += '\n';
+            }
+        },
+        ontext(data) {
+            if (skipDepth > 0) {
+                return;
+            }
+            const value = preDepth > 0 ? data : data.replace(/\s+/g, ' ');
+            if (heading) {
+                heading.text += value;
+            } else {
+                text += value;
+            }
+        },
+        onclosetag(name) {
+            if (SKIPPED_ELEMENTS.has(name)) {
+                skipDepth = Math.max(0, skipDepth - 1);
+                return;
+            }
+            if (skipDepth > 0) {
+                return;
+            }
+
+            if (heading && headingLevel(name) === heading.level) {
+                const title = heading.text.replace(/\s+/g, ' ').trim();
+                // Ends the sections of this and every deeper heading level
+                headings.length = heading.level - 1;
+                headings[heading.level - 1] = title;
+                text += `${title}\n`;
+                heading = undefined;
+            } else if (name === 'pre') {
+                preDepth = Math.max(0, preDepth - 1);
+            }
+            if (BLOCK_ELEMENTS.has(name)) {
+                text += '\n';
+            }
+        }
+    }, { decodeEntities: true });
+
+    parser.write(html);
+    parser.end();
+    flush();
+
+    return sections;
+}
+
+/**
+ * One section per code or markdown cell (nbformat 4). Text outputs are kept
+ * below the cell's source, cut to a readable length; images and other rich
+ * outputs, usually large base64 blobs, are dropped.
+ */
+async function extractNotebook(data: Buffer): Promise<DocumentSection[]> {
+    const notebook = JSON.parse(data.toString('utf-8'));
+    if (!Array.isArray(notebook.cells)) {
+        throw new Error(`Unsupported notebook format ${notebook.nbformat ?? 'unknown'}`);
+    }
+
+    const sections: DocumentSection[] = [];
+    notebook.cells.forEach((cell: any, index: number) => {
+        if (cell.cell_type !== 'code' && cell.cell_type !== 'markdown') {
+            return;
+        }
+
+        const parts = [joinNotebookText(cell.source)];
+        for (const output of cell.outputs ?? []) {
+            const text = getOutputText(output).trimEnd();
+            if (text.trim()) {
+                parts.push(text.length > MAX_CELL_OUTPUT_CHARS ? `${text.slice(0, MAX_CELL_OUTPUT_CHARS)}\n...` : text);
+            }
+        }
+
+        const text = parts.join('\n\n').trim();
+        if (text) {
+            sections.push({ text, cell: index });
+        }
+    });
+
+    return sections;
+}
+
+function getOutputText(output: any): string {
+    switch (output.output_type) {
+        case 'stream':
+            return joinNotebookText(output.text);
+        case 'execute_result':
+        case 'display_data':
+            return joinNotebookText(output.data?.['text/plain']);
+        case 'error':
+            return `${output.ename}: ${output.evalue}`;
+        default:
+            return '';
+    }
+}
+
+/** Notebook text fields are a string or an array of lines. */
+function joinNotebookText(text: string | string[] | undefined): string {
+    return Array.isArray(text) ? text.join('') : text ?? '';
+}
+
+function headingLevel(name: string): number | undefined {
+    const match = name.match(/^h([1-6])$/);
+    return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Trims every line and collapses runs of blank lines.
+ */
+function cleanText(text: string): string {
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+registerDocumentExtractor(['.pdf'], { extract: extractPdf });
+registerDocumentExtractor(['.docx'], { extract: extractDocx });
+registerDocumentExtractor(['.html', '.htm'], { extract: data => extractHtml(data.toString('utf-8')) });
+registerDocumentExtractor(['.ipynb'], { extract: extractNotebook });
+
+const builtInExtractors = new Map(extractors);
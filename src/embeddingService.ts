@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import type { EmbeddingRequest, EmbeddingResponse } from './embeddingWorker';
+
+interface PendingRequest {
+    resolve: (response: EmbeddingResponse) => void;
+    reject: (error: Error) => void;
+}
+
+interface EmbeddingWorker {
+    worker: Worker;
+    pending: Map<number, PendingRequest>;
+    /** Batches assigned to the worker and not yet answered, counted from when they are assigned. */
+    queued: number;
+    /** Resolves once the worker has loaded the model. */
+    ready: Promise<void>;
+    /** Set when the concurrency was lowered; stopped once its queue drains. */
+    retiring: boolean;
+}
+
+/**
+ * Computes embeddings on `worker_threads` workers so model inference never
+ * blocks the extension host. Texts are split into batches of
+ * `ragPilot.embeddingBatchSize` and spread over `ragPilot.embeddingConcurrency`
+ * workers, each of which holds its own copy of the model.
+ */
+export class EmbeddingService implements vscode.Disposable {
+    private workers: EmbeddingWorker[] = [];
+    private modelName = '';
+    private nextRequestId = 0;
+
+    constructor(private readonly workerPath: string = path.join(__dirname, 'embeddingWorker.js')) {}
+
+    /**
+     * Loads the model in fresh workers and returns the embedding dimensions.
+     */
+    async load(modelName: string): Promise<number> {
+        this.terminateWorkers();
+        this.modelName = modelName;
+        console.log(`Initializing embedding model: ${modelName}`);
+
+        this.ensureWorkers();
+        await Promise.all(this.workers.map(worker => worker.ready));
+        return (await this.embed(['dimension probe']))[0].length;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (!this.modelName) {
+            throw new Error('Embedder not initialized');
+        }
+        if (texts.length === 0) {
+            return [];
+        }
+
+        this.ensureWorkers();
+
+        const batchSize = getBatchSize();
+        const batches: Promise<number[][]>[] = [];
+        for (let start = 0; start < texts.length; start += batchSize) {
+            batches.push(this.embedBatch(texts.slice(start, start + batchSize)));
+        }
+        return (await Promise.all(batches)).flat();
+    }
+
+    /**
+     * Number of chunks worth collecting before calling `embed`: one full
+     * batch for every worker.
+     */
+    getQueueTarget(): number {
+        return getBatchSize() * getConcurrency();
+    }
+
+    dispose(): void {
+        this.terminateWorkers();
+    }
+
+    private async embedBatch(texts: string[]): Promise<number[][]> {
+        // Queue on the worker with the fewest outstanding batches. The count is
+        // taken before awaiting `ready`, so the batches of one call spread out.
+        const target = this.workers.reduce((best, worker) => worker.queued < best.queued ? worker : best);
+        target.queued++;
+
+        let response: EmbeddingResponse;
+        try {
+            await target.ready;
+            response = await this.send(target, { id: this.nextRequestId++, type: 'embed', texts });
+        } finally {
+            target.queued--;
+            if (target.retiring && target.queued === 0) {
+                target.worker.terminate();
+            }
+        }
+        if ('error' in response) {
+            throw new Error(response.error);
+        }
+
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i++) {
+            vectors.push(Array.from(response.vectors.subarray(i * response.dimensions, (i + 1) * response.dimensions)));
+        }
+        return vectors;
+    }
+
+    /**
+     * Starts or stops workers to match the configured concurrency; also
+     * replaces workers that have exited.
+     */
+    private ensureWorkers(): void {
+        const concurrency = getConcurrency();
+
+        while (this.workers.length > concurrency) {
+            // Let queued batches finish before stopping the worker
+            const surplus = this.workers.pop()!;
+            surplus.retiring = true;
+            if (surplus.queued === 0) {
+                surplus.worker.terminate();
+            }
+        }
+
+        while (this.workers.length < concurrency) {
+            this.workers.push(this.startWorker());
+        }
+    }
+
+    private startWorker(): EmbeddingWorker {
+        const worker = new Worker(this.workerPath);
+        const handle: EmbeddingWorker = { worker, pending: new Map(), queued: 0, ready: Promise.resolve(), retiring: false };
+
+        worker.on('message', (response: EmbeddingResponse) => {
+            const request = handle.pending.get(response.id);
+            handle.pending.delete(response.id);
+            request?.resolve(response);
+        });
+        worker.on('error', error => {
+            console.error('Embedding worker failed:', error);
+        });
+        worker.on('exit', code => {
+            // Fail outstanding batches; the next request starts a replacement
+            this.workers = this.workers.filter(other => other !== handle);
+            for (const request of handle.pending.values()) {
+                request.reject(new Error(`Embedding worker exited with code ${code}`));
+            }
+            handle.pending.clear();
+        });
+
+        handle.ready = this.send(handle, { id: this.nextRequestId++, type: 'load', model: this.modelName }).then(response => {
+            if ('error' in response) {
+                worker.terminate();
+                throw new Error(response.error);
+            }
+        });
+        // Failures surface through the requests waiting on `ready`
+        handle.ready.catch(() => undefined);
+        return handle;
+    }
+
+    private send(handle: EmbeddingWorker, request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        return new Promise((resolve, reject) => {
+            handle.pending.set(request.id, { resolve, reject });
+            handle.worker.postMessage(request);
+        });
+    }
+
+    private terminateWorkers(): void {
+        for (const handle of this.workers) {
+            handle.worker.terminate();
+        }
+        this.workers = [];
+    }
+}
+
+function getBatchSize(): number {
+    const batchSize = vscode.workspace.getConfiguration('ragPilot').get<number>('embeddingBatchSize') ?? 16;
+    return Math.max(1, Math.floor(batchSize));
+}
+
+function getConcurrency(): number {
+    const concurrency = vscode.workspace.getConfiguration('ragPilot').get<number>('embeddingConcurrency') ?? 1;
+    return Math.max(1, Math.floor(concurrency));
+}
@@ -0,0 +1,44 @@
+import { parentPort } from 'worker_threads';
+
+/**
+ * Worker thread entry point (bundled to `dist/embeddingWorker.js`). Runs the
+ * embedding model off the extension host thread and embeds texts in batches.
+ */
+
+export type EmbeddingRequest =
+    | { id: number; type: 'load'; model: string }
+    | { id: number; type: 'embed'; texts: string[] };
+
+export type EmbeddingResponse =
+    | { id: number; vectors: Float32Array; dimensions: number }
+    | { id: number; error: string };
+
+let embedder: any = null;
+
+parentPort?.on('message', async (request: EmbeddingRequest) => {
+    try {
+        if (request.type === 'load') {
+            const { pipeline } = await import('@xenova/transformers');
+            embedder = await pipeline('feature-extraction', request.model);
+            respond({ id: request.id, vectors: new Float32Array(0), dimensions: 0 });
+            return;
+        }
+
+        if (!embedder) {
+            throw new Error('Embedding model not loaded');
+        }
+
+        // One forward pass for the whole batch; mean pooling ignores the padding
+        const output = await embedder(request.texts, { pooling: 'mean', normalize: true });
+        const vectors = new Float32Array(output.data as Float32Array);
+        respond({ id: request.id, vectors, dimensions: output.dims[output.dims.length - 1] });
+    } catch (error) {
+        respond({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
+
+function respond(response: EmbeddingResponse): void {
+    // Hand the vector buffer over instead of copying it
+    const transfer = 'vectors' in response ? [response.vectors.buffer as ArrayBuffer] : [];
+    parentPort?.postMessage(response, transfer);
+}
@@ -1,12 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as os from 'os';
 import { RagChatParticipant } from './ragChatParticipant.js';
-import { VectorStore } from './vectorStore.js';
-import { GitHubRepoManager } from './gitHubRepoManager.js';
+import { VectorStore, IndexingSummary, formatIndexingSummary } from './vectorStore.js';
+import { GitHubRepoManager, RepoInfo, getRepoKey, getRepoVersion } from './gitHubRepoManager.js';
+import { IndexWatcher } from './indexWatcher.js';
+import { Reranker } from './reranker.js';
+import { SearchTool, SEARCH_TOOL_NAME } from './searchTool.js';
+import { RepoRefresher } from './repoRefresher.js';
+import { exportIndexArchive, importIndexArchive, ArchiveSummary, ARCHIVE_EXTENSION } from './indexArchive.js';
+import { SourcesTreeProvider, SourceNode, resolveWorkspacePath } from './sourcesTreeProvider.js';
+import { SemanticSearch, RepoFileContentProvider, REPO_FILE_SCHEME, openIndexedFile } from './semanticSearch.js';
+import { collectIndexStatus, formatIndexStatus } from './indexStatus.js';
+import { Source, SourceKind, getSourceLabel } from './sourceRegistry.js';
+import { DocumentMetadata } from './indexPartition.js';
 
 let vectorStore: VectorStore;
 let chatParticipant: RagChatParticipant;
 let repoManager: GitHubRepoManager;
+let indexWatcher: IndexWatcher;
+let repoRefresher: RepoRefresher;
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('=== RAG Pilot Extension Activating ===');
@@ -19,27 +32,100 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Initialize vector store
     vectorStore = new VectorStore(context);
+    context.subscriptions.push(vectorStore);
     await vectorStore.initialize();
     console.log('Vector store initialized');
 
-    // Watch for embedding model changes
+    // Re-label chunks of repos that were keyed by owner/name before host-qualified keys
+    for (const [oldKey, newKey] of await repoManager.takeLegacyRepoKeys()) {
+        await vectorStore.renameRepo(oldKey, newKey);
+    }
+    await vectorStore.registerRepoSources(repoManager.getRepos().map(getRepoKey));
+
+    // Refresh repos with a schedule in the background
+    repoRefresher = new RepoRefresher(vectorStore, repoManager);
+    context.subscriptions.push(repoRefresher);
+    repoRefresher.start();
+
+    // Start background re-indexing if enabled
+    indexWatcher = new IndexWatcher(vectorStore);
+    context.subscriptions.push(indexWatcher);
+    if (vscode.workspace.getConfiguration('ragPilot').get<boolean>('autoReindex')) {
+        indexWatcher.start();
+    }
+
+    // Watch for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('ragPilot.autoReindex') ||
+                (indexWatcher.isRunning && e.affectsConfiguration('ragPilot.includePatterns'))) {
+                // Restart so the watchers pick up the new include patterns
+                indexWatcher.stop();
+                if (vscode.workspace.getConfiguration('ragPilot').get<boolean>('autoReindex')) {
+                    indexWatcher.start();
+                }
+            }
+
             if (e.affectsConfiguration('ragPilot.embeddingModel')) {
-                vscode.window.showWarningMessage(
-                    'Embedding model changed. Please reload the window and re-index your sources.',
-                    'Reload Window'
-                ).then(selection => {
-                    if (selection === 'Reload Window') {
-                        vscode.commands.executeCommand('workbench.action.reloadWindow');
+                // Each model has its own index, so switch to it instead of mixing vectors
+                const modelName = vscode.workspace.getConfiguration('ragPilot').get<string>('embeddingModel') || 'Xenova/bge-base-en-v1.5';
+                vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Loading embedding model ${modelName}`,
+                    cancellable: false
+                }, () => vectorStore.switchModel(modelName)).then(() => {
+                    if (vectorStore.hasIndexedContent()) {
+                        vscode.window.showInformationMessage(`Switched to the existing index built with ${modelName}.`);
+                        return;
                     }
+                    vscode.window.showWarningMessage(
+                        `No index has been built with ${modelName} yet. Re-index your sources to search with it.`,
+                        'Index Workspace'
+                    ).then(selection => {
+                        if (selection === 'Index Workspace') {
+                            vscode.commands.executeCommand('copilot-rag.indexWorkspace');
+                        }
+                    });
+                }, error => {
+                    const current = vectorStore.getModelName();
+                    vscode.window.showErrorMessage(
+                        `Failed to switch embedding model: ${error instanceof Error ? error.message : 'Unknown error'}` +
+                        (current ? `. Still using ${current}.` : '')
+                    );
+                });
+            }
+
+            if (e.affectsConfiguration('ragPilot.workspaceIndexPath')) {
+                vectorStore.reloadWorkspaceIndex().then(() => {
+                    vscode.window.showInformationMessage(
+                        `Workspace index location changed to ${vectorStore.getWorkspaceIndexRoot()}.`
+                    );
+                }, error => {
+                    vscode.window.showErrorMessage(
+                        `Failed to open the workspace index: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    );
+                });
+            }
+
+            if (e.affectsConfiguration('ragPilot.vectorStorage') || e.affectsConfiguration('ragPilot.vectorQuantization')) {
+                // Opening the indexes converts the stored vectors to the new format
+                vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Converting the vector index',
+                    cancellable: false
+                }, () => vectorStore.reloadVectorStorage()).then(undefined, error => {
+                    vscode.window.showErrorMessage(
+                        `Failed to convert the vector index: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    );
                 });
             }
         })
     );
 
     // Register chat participant
-    chatParticipant = new RagChatParticipant(vectorStore);
+    const reranker = new Reranker();
+    context.subscriptions.push(reranker);
+    chatParticipant = new RagChatParticipant(vectorStore, reranker, repoManager);
     const participant = vscode.chat.createChatParticipant('copilot-rag.assistant', chatParticipant.handleRequest.bind(chatParticipant));
     participant.iconPath = vscode.Uri.joinPath(context.extensionUri, 'icon.png');
     console.log('Chat participant registered with ID: copilot-rag.assistant, name: rag');
@@ -49,6 +135,22 @@ export async function activate(context: vscode.ExtensionContext) {
     
     context.subscriptions.push(participant);
 
+    // Expose search as a tool for agent mode and other participants
+    context.subscriptions.push(vscode.lm.registerTool(SEARCH_TOOL_NAME, new SearchTool(vectorStore)));
+
+    // Show indexed sources in the RAG Pilot view
+    const sourcesProvider = new SourcesTreeProvider(vectorStore, repoManager);
+    context.subscriptions.push(
+        sourcesProvider,
+        vscode.window.createTreeView('ragPilot.sources', { treeDataProvider: sourcesProvider, showCollapseAll: true })
+    );
+
+    // Search hits from repositories open read-only from their checkout
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(REPO_FILE_SCHEME, new RepoFileContentProvider(repoManager))
+    );
+    const semanticSearch = new SemanticSearch(vectorStore, repoManager);
+
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('copilot-rag.indexWorkspace', async () => {
@@ -57,8 +159,8 @@ export async function activate(context: vscode.ExtensionContext) {
                 title: 'Indexing workspace for RAG',
                 cancellable: true
             }, async (progress, token) => {
-                await vectorStore.indexWorkspace(progress, token);
-                vscode.window.showInformationMessage('Workspace indexed successfully!');
+                const summary = await vectorStore.indexWorkspace(progress, token);
+                showIndexingSummary('Workspace indexed successfully!', summary);
             });
         })
     );
@@ -87,13 +189,14 @@ export async function activate(context: vscode.ExtensionContext) {
 
             const folderName = path.basename(folderUri.fsPath);
 
-            await vscode.window.withProgress({
+            return await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: `Indexing ${folderName}`,
                 cancellable: true
             }, async (progress, token) => {
-                await vectorStore.indexWorkspace(progress, token, folderUri);
-                vscode.window.showInformationMessage(`Folder "${folderName}" indexed successfully!`);
+                const summary = await vectorStore.indexWorkspace(progress, token, folderUri);
+                showIndexingSummary(`Folder "${folderName}" indexed successfully!`, summary);
+                return summary;
             });
         })
     );
@@ -110,22 +213,24 @@ export async function activate(context: vscode.ExtensionContext) {
             const fileCount = filesToIndex.length;
             const fileWord = fileCount === 1 ? 'file' : 'files';
 
-            await vscode.window.withProgress({
+            return await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: `Indexing ${fileCount} ${fileWord}`,
                 cancellable: true
             }, async (progress, token) => {
-                await vectorStore.indexFiles(filesToIndex, progress, token);
-                vscode.window.showInformationMessage(`${fileCount} ${fileWord} indexed successfully!`);
+                const summary = await vectorStore.indexFiles(filesToIndex, progress, token);
+                showIndexingSummary(`${fileCount} ${fileWord} indexed successfully!`, summary);
+                return summary;
             });
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('copilot-rag.addGitHubRepo', async () => {
-            const repoUrl = await vscode.window.showInputBox({
-                prompt: 'Enter GitHub repository URL or owner/repo',
-                placeHolder: 'e.g., microsoft/vscode or https://github.com/microsoft/vscode',
+        vscode.commands.registerCommand('copilot-rag.addGitHubRepo', async (repoUrlArg?: string, refArg?: string) => {
+            // When called from chat (/index owner/repo [ref]) the repository is passed in
+            const repoUrl = typeof repoUrlArg === 'string' ? repoUrlArg : await vscode.window.showInputBox({
+                prompt: 'Enter a git repository URL, or owner/repo for GitHub',
+                placeHolder: 'e.g., microsoft/vscode, https://gitlab.com/group/project or git@host:team/repo.git',
                 validateInput: (value) => {
                     if (!value || value.trim().length === 0) {
                         return 'Repository URL cannot be empty';
@@ -138,29 +243,199 @@ export async function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
+            const ref = typeof repoUrlArg === 'string' ? refArg : await vscode.window.showInputBox({
+                prompt: 'Branch, tag or commit to index (leave empty for the default branch)',
+                placeHolder: 'e.g., main, v1.2.0 or 3f2a9c1'
+            });
+
+            if (ref === undefined && typeof repoUrlArg !== 'string') {
+                return;
+            }
+
             try {
-                const repo = await repoManager.downloadRepo(repoUrl.trim());
-                
-                // Index the repository
-                await vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: `Indexing ${repo.owner}/${repo.name}`,
-                    cancellable: true
-                }, async (progress, token) => {
-                    await vectorStore.indexGitHubRepo(
-                        `${repo.owner}/${repo.name}`,
-                        repo.path,
-                        progress,
-                        token
-                    );
-                });
+                const repo = await repoManager.downloadRepo(repoUrl.trim(), ref?.trim() || undefined);
+                const summary = await indexRepository(repo);
+
+                showIndexingSummary(`Repository ${getRepoKey(repo)} indexed successfully!`, summary);
+                return summary;
+            } catch (error) {
+                // `/index` in chat reports the error in the response
+                if (typeof repoUrlArg === 'string') {
+                    throw error;
+                }
+                vscode.window.showErrorMessage(
+                    `Failed to add repository: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.setRepoRef', async () => {
+            const repos = repoManager.getRepos();
+            if (repos.length === 0) {
+                vscode.window.showInformationMessage('No repositories indexed yet.');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                repos.map(repo => ({
+                    label: getRepoKey(repo),
+                    description: repo.ref ? `pinned to ${repo.ref}` : 'default branch',
+                    detail: repo.commit ? `Commit ${repo.commit}` : undefined,
+                    repo
+                })),
+                { placeHolder: 'Select the repository to switch' }
+            );
+
+            if (!selected) {
+                return;
+            }
+
+            const ref = await vscode.window.showInputBox({
+                prompt: 'Branch, tag or commit to index (leave empty for the default branch)',
+                placeHolder: 'e.g., main, v1.2.0 or 3f2a9c1',
+                value: selected.repo.ref || ''
+            });
+
+            if (ref === undefined) {
+                return;
+            }
+
+            try {
+                const repo = await repoManager.setRepoRef(selected.label, ref.trim() || undefined);
+                const summary = await indexRepository(repo);
+
+                showIndexingSummary(`Repository ${getRepoKey(repo)} is now at ${getRepoVersion(repo)}.`, summary);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to switch repository version: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.refreshAllRepos', async () => {
+            const repos = repoManager.getRepos();
+            if (repos.length === 0) {
+                vscode.window.showInformationMessage('No repositories indexed yet.');
+                return;
+            }
+
+            const total: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+            const failed: string[] = [];
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Refreshing repositories',
+                cancellable: true
+            }, async (progress, token) => {
+                for (const repo of repos) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+                    try {
+                        const summary = await repoRefresher.refresh(repo, progress, token);
+                        total.indexed += summary.indexed;
+                        total.unchanged += summary.unchanged;
+                        total.removed += summary.removed;
+                        total.skipped.push(...summary.skipped);
+                    } catch (error) {
+                        console.error(`Failed to refresh ${getRepoKey(repo)}:`, error);
+                        failed.push(getRepoKey(repo));
+                    }
+                }
+            });
+
+            if (failed.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Refreshed repositories with errors (${failed.join(', ')}). ${formatIndexingSummary(total)}`
+                );
+            } else {
+                showIndexingSummary('Repositories refreshed.', total);
+            }
+        })
+    );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.setRepoRefreshSchedule', async () => {
+            const repos = repoManager.getRepos();
+            if (repos.length === 0) {
+                vscode.window.showInformationMessage('No repositories indexed yet.');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                repos.map(repo => ({
+                    label: getRepoKey(repo),
+                    description: repo.refreshIntervalHours !== undefined
+                        ? `every ${repo.refreshIntervalHours}h`
+                        : 'no scheduled refresh'
+                })),
+                { placeHolder: 'Select the repository to schedule' }
+            );
+
+            if (!selected) {
+                return;
+            }
+
+            const interval = await vscode.window.showQuickPick([
+                { label: 'Off', hours: undefined },
+                { label: 'Every hour', hours: 1 },
+                { label: 'Every 6 hours', hours: 6 },
+                { label: 'Daily', hours: 24 },
+                { label: 'Weekly', hours: 168 }
+            ], { placeHolder: `Refresh ${selected.label} in the background` });
+
+            if (!interval) {
+                return;
+            }
+
+            await repoManager.setRefreshInterval(selected.label, interval.hours);
+            vscode.window.showInformationMessage(
+                interval.hours !== undefined
+                    ? `${selected.label} will be refreshed ${interval.label.toLowerCase()}.`
+                    : `Scheduled refresh of ${selected.label} turned off.`
+            );
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.setGitToken', async () => {
+            const host = await vscode.window.showInputBox({
+                prompt: 'Git host the token is for',
+                placeHolder: 'e.g., github.com, gitlab.com or git.example.com',
+                validateInput: (value) => {
+                    if (!value || !/^[\w.-]+$/.test(value.trim())) {
+                        return 'Enter a host name without scheme or path';
+                    }
+                    return null;
+                }
+            });
+
+            if (!host) {
+                return;
+            }
+
+            const token = await vscode.window.showInputBox({
+                prompt: `Access token for ${host.trim()} (use user:token if the host needs a username). Leave empty to remove the stored token.`,
+                password: true,
+                ignoreFocusOut: true
+            });
+
+            if (token === undefined) {
+                return;
+            }
+
+            try {
+                await repoManager.setHostToken(host.trim(), token.trim());
                 vscode.window.showInformationMessage(
-                    `Repository ${repo.owner}/${repo.name} indexed successfully!`
+                    token.trim() ? `Access token for ${host.trim()} saved.` : `Access token for ${host.trim()} removed.`
                 );
             } catch (error) {
                 vscode.window.showErrorMessage(
-                    `Failed to add repository: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    `Failed to store access token: ${error instanceof Error ? error.message : 'Unknown error'}`
                 );
             }
         })
@@ -168,47 +443,49 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(
         vscode.commands.registerCommand('copilot-rag.listIndexedRepos', async () => {
-            const repos = repoManager.getRepos();
-            const folders = vectorStore.getIndexedFolders();
+            const sources = vectorStore.getSources();
+            const folders = sources.filter(source => source.kind !== 'repo');
+            const repoSources = sources.filter(source => source.kind === 'repo');
             
-            if (repos.length === 0 && folders.length === 0) {
+            if (sources.length === 0) {
                 vscode.window.showInformationMessage('No sources indexed yet.');
                 return;
             }
 
             interface SourceQuickPickItem extends vscode.QuickPickItem {
-                type?: 'folder' | 'repo' | 'header';
-                key?: string;
+                type?: 'source' | 'header';
+                source?: Source;
             }
 
             const items: SourceQuickPickItem[] = [];
 
-            // Add workspace folders
+            // Add workspace folders and files
             if (folders.length > 0) {
                 items.push({ label: '📁 Workspace Folders', type: 'header' });
-                folders.forEach(folder => {
+                folders.forEach(source => {
                     items.push({
-                        label: `  ${folder}`,
-                        description: 'Workspace',
-                        type: 'folder',
-                        key: folder
+                        label: `  ${getSourceLabel(source)}`,
+                        description: source.kind === 'file' ? 'Workspace file' : 'Workspace',
+                        type: 'source',
+                        source
                     });
                 });
             }
 
             // Add GitHub repos
-            if (repos.length > 0) {
+            if (repoSources.length > 0) {
                 if (items.length > 0) {
                     items.push({ label: '', type: 'header' }); // Spacer
                 }
-                items.push({ label: '📦 GitHub Repositories', type: 'header' });
-                repos.forEach(repo => {
+                items.push({ label: '📦 Repositories', type: 'header' });
+                repoSources.forEach(source => {
+                    const repo = repoManager.getRepo(source.root);
                     items.push({
-                        label: `  ${repo.owner}/${repo.name}`,
-                        description: `Indexed: ${repo.indexedAt.toLocaleDateString()}`,
-                        detail: repo.url,
-                        type: 'repo',
-                        key: `${repo.owner}/${repo.name}`
+                        label: `  ${source.root}`,
+                        description: repo ? `${repo.ref ? `${repo.ref} · ` : ''}Indexed: ${repo.indexedAt.toLocaleDateString()}` : 'Repository',
+                        detail: repo?.url,
+                        type: 'source',
+                        source
                     });
                 });
             }
@@ -239,12 +516,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
                 if (confirm === 'Remove') {
                     try {
-                        if (selected.type === 'repo') {
-                            await vectorStore.removeRepoFromIndex(selected.key!);
-                            await repoManager.removeRepo(selected.key!);
-                        } else {
-                            await vectorStore.removeFolderFromIndex(selected.key!);
-                        }
+                        await removeSource(selected.source!);
                         vscode.window.showInformationMessage('Source removed successfully!');
                     } catch (error) {
                         vscode.window.showErrorMessage(
@@ -266,9 +538,9 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             const items = repos.map(repo => ({
-                label: `${repo.owner}/${repo.name}`,
+                label: getRepoKey(repo),
                 description: repo.url,
-                repoKey: `${repo.owner}/${repo.name}`
+                repoKey: getRepoKey(repo)
             }));
 
             const selected = await vscode.window.showQuickPick(items, {
@@ -303,11 +575,32 @@ export async function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('copilot-rag.removeSource', async () => {
-            const repos = repoManager.getRepos();
-            const folders = vectorStore.getIndexedFolders();
+        vscode.commands.registerCommand('copilot-rag.removeSource', async (node?: SourceNode) => {
+            // Inline action in the sources view
+            if (node && node.kind !== 'group') {
+                const label = getSourceLabel(node.source);
+                const confirm = await vscode.window.showWarningMessage(
+                    `Remove ${label} from index?`,
+                    'Remove',
+                    'Cancel'
+                );
+
+                if (confirm === 'Remove') {
+                    try {
+                        await removeSource(node.source);
+                        vscode.window.showInformationMessage(`${label} removed from the index.`);
+                    } catch (error) {
+                        vscode.window.showErrorMessage(
+                            `Failed to remove source: ${error instanceof Error ? error.message : 'Unknown error'}`
+                        );
+                    }
+                }
+                return;
+            }
+
+            const sources = vectorStore.getSources();
             
-            if (repos.length === 0 && folders.length === 0) {
+            if (sources.length === 0) {
                 vscode.window.showInformationMessage('No sources to remove.');
                 return;
             }
@@ -315,31 +608,20 @@ export async function activate(context: vscode.ExtensionContext) {
             interface SourceItem {
                 label: string;
                 description: string;
-                type: 'repo' | 'folder';
-                key: string;
+                source: Source;
             }
 
-            const items: SourceItem[] = [];
-
-            // Add workspace folders
-            folders.forEach(folder => {
-                items.push({
-                    label: `📁 ${folder}`,
-                    description: 'Workspace folder',
-                    type: 'folder',
-                    key: folder
-                });
-            });
-
-            // Add GitHub repos
-            repos.forEach(repo => {
-                items.push({
-                    label: `📦 ${repo.owner}/${repo.name}`,
-                    description: 'GitHub repository',
-                    type: 'repo',
-                    key: `${repo.owner}/${repo.name}`
-                });
-            });
+            const descriptions: Record<SourceKind, string> = {
+                workspace: 'Workspace',
+                folder: 'Workspace folder',
+                file: 'Workspace file',
+                repo: 'Git repository'
+            };
+            const items: SourceItem[] = sources.map(source => ({
+                label: `${source.kind === 'repo' ? '📦' : '📁'} ${getSourceLabel(source)}`,
+                description: descriptions[source.kind],
+                source
+            }));
 
             const selected = await vscode.window.showQuickPick(items, {
                 placeHolder: 'Select source to remove from index',
@@ -358,12 +640,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
             if (confirm === 'Remove') {
                 try {
-                    if (selected.type === 'repo') {
-                        await vectorStore.removeRepoFromIndex(selected.key);
-                        await repoManager.removeRepo(selected.key);
-                    } else {
-                        await vectorStore.removeFolderFromIndex(selected.key);
-                    }
+                    await removeSource(selected.source);
                     vscode.window.showInformationMessage(
                         `Source removed successfully!`
                     );
@@ -376,6 +653,139 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.reindexSource', async (node?: SourceNode) => {
+            if (!node || node.kind === 'group') {
+                return;
+            }
+
+            const { source } = node;
+            try {
+                if (source.kind === 'repo') {
+                    if (!node.repo) {
+                        vscode.window.showWarningMessage(`${source.root} has no local clone. Add the repository again to re-index it.`);
+                        return;
+                    }
+                    const summary = await indexRepository(node.repo);
+                    showIndexingSummary(`Repository ${source.root} re-indexed.`, summary);
+                    return;
+                }
+
+                const uri = resolveWorkspacePath(source.root);
+                if (source.kind === 'workspace') {
+                    await vscode.commands.executeCommand('copilot-rag.indexWorkspace');
+                } else if (!uri) {
+                    vscode.window.showWarningMessage(`${source.root} is not part of the open workspace.`);
+                } else if (source.kind === 'file') {
+                    await vscode.commands.executeCommand('copilot-rag.indexFiles', uri);
+                } else {
+                    await vscode.commands.executeCommand('copilot-rag.indexFolder', uri);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to re-index source: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.updateSource', async (node?: SourceNode) => {
+            const repo = node?.kind === 'source' ? node.repo : undefined;
+            if (!repo) {
+                return;
+            }
+
+            const repoKey = getRepoKey(repo);
+            try {
+                const summary = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Updating ${repoKey}`,
+                    cancellable: true
+                }, (progress, token) => repoRefresher.refresh(repo, progress, token));
+
+                showIndexingSummary(`Repository ${repoKey} updated to ${getRepoVersion(repo)}.`, summary);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to update repository: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.revealSource', async (node?: SourceNode) => {
+            if (!node || node.kind === 'group') {
+                return;
+            }
+
+            if (node.source.kind === 'repo') {
+                if (node.repo) {
+                    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(node.repo.path));
+                }
+                return;
+            }
+
+            const uri = resolveWorkspacePath(getSourceLabel(node.source));
+            if (!uri) {
+                vscode.window.showWarningMessage(`${getSourceLabel(node.source)} is not part of the open workspace.`);
+                return;
+            }
+            await vscode.commands.executeCommand('revealInExplorer', uri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.editSourceFilters', async (node?: SourceNode) => {
+            // Patterns select files under a folder, so single files have none
+            const editable = (candidate: Source) => candidate.kind !== 'file';
+            let source = node?.kind === 'source' ? node.source : undefined;
+            if (!source) {
+                const selected = await vscode.window.showQuickPick(
+                    vectorStore.getSources().filter(editable).map(candidate => ({ label: getSourceLabel(candidate), source: candidate })),
+                    { placeHolder: 'Select a source to edit its include and exclude patterns' }
+                );
+                source = selected?.source;
+            }
+            if (!source || !editable(source)) {
+                return;
+            }
+
+            const include = await vscode.window.showInputBox({
+                prompt: `Include patterns for ${getSourceLabel(source)}, comma-separated (leave empty to use ragPilot.includePatterns)`,
+                value: source.include?.join(', ') ?? ''
+            });
+            if (include === undefined) {
+                return;
+            }
+            const exclude = await vscode.window.showInputBox({
+                prompt: `Exclude patterns for ${getSourceLabel(source)}, comma-separated (leave empty to use ragPilot.excludePatterns)`,
+                value: source.exclude?.join(', ') ?? ''
+            });
+            if (exclude === undefined) {
+                return;
+            }
+
+            await vectorStore.setSourceFilters(source.id, splitPatterns(include), splitPatterns(exclude));
+
+            const selection = await vscode.window.showInformationMessage(
+                `Patterns of ${getSourceLabel(source)} updated. Re-index it to apply them.`,
+                'Re-index'
+            );
+            if (selection === 'Re-index') {
+                await vscode.commands.executeCommand('copilot-rag.reindexSource', {
+                    kind: 'source',
+                    source,
+                    ...(source.kind === 'repo' ? { repo: repoManager.getRepo(source.root) } : {})
+                });
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.refreshSources', () => sourcesProvider.refresh())
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('copilot-rag.clearIndex', async () => {
             const confirm = await vscode.window.showWarningMessage(
@@ -392,6 +802,159 @@ export async function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.exportIndex', async () => {
+            if (!vectorStore.hasIndexedContent()) {
+                vscode.window.showInformationMessage('The index is empty. Index a folder or repository first.');
+                return;
+            }
+
+            const slug = vectorStore.getModelName().replace(/[^\w.-]+/g, '-');
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(os.homedir(), `rag-index-${slug}.${ARCHIVE_EXTENSION}`)),
+                filters: { 'RAG Pilot Index': [ARCHIVE_EXTENSION] },
+                saveLabel: 'Export Index'
+            });
+
+            if (!target) {
+                return;
+            }
+
+            try {
+                const summary = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Exporting index',
+                    cancellable: false
+                }, () => exportIndexArchive(target.fsPath, vectorStore, repoManager));
+
+                vscode.window.showInformationMessage(`Exported ${formatArchiveSummary(summary)} to ${path.basename(target.fsPath)}.`);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to export index: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.importIndex', async () => {
+            const source = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'RAG Pilot Index': [ARCHIVE_EXTENSION] },
+                openLabel: 'Import Index'
+            });
+
+            if (!source || source.length === 0) {
+                return;
+            }
+
+            let merge = false;
+            if (vectorStore.hasIndexedContent()) {
+                const mode = await vscode.window.showQuickPick([
+                    { label: 'Merge', description: 'Add the archive to the current index; its files replace the same files', merge: true },
+                    { label: 'Replace', description: 'Discard the current index and use the archive', merge: false }
+                ], { placeHolder: 'The index already has content. How should the archive be imported?' });
+
+                if (!mode) {
+                    return;
+                }
+                merge = mode.merge;
+            }
+
+            try {
+                const summary = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Importing index',
+                    cancellable: false
+                }, () => importIndexArchive(source[0].fsPath, vectorStore, repoManager, merge));
+
+                vscode.window.showInformationMessage(`Imported ${formatArchiveSummary(summary)}.`);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to import index: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.showIndexStatus', async () => {
+            try {
+                const status = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Checking indexed files',
+                    cancellable: true
+                }, (progress, token) => collectIndexStatus(vectorStore, repoManager, progress, token));
+
+                const document = await vscode.workspace.openTextDocument({
+                    language: 'markdown',
+                    content: formatIndexStatus(status)
+                });
+                await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to collect index status: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.switchModelIndex', async () => {
+            const indexes = await vectorStore.listModelIndexes();
+
+            if (indexes.length === 0) {
+                vscode.window.showInformationMessage('No model indexes built yet.');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                indexes.map(index => ({
+                    label: `${index.active ? '$(check) ' : ''}${index.model}`,
+                    description: `${index.dimensions} dimensions`,
+                    detail: `Created: ${index.createdAt.toLocaleDateString()}`,
+                    model: index.model
+                })),
+                { placeHolder: 'Select an embedding model index to use' }
+            );
+
+            if (!selected || selected.model === vectorStore.getModelName()) {
+                return;
+            }
+
+            // The configuration listener performs the actual switch
+            await vscode.workspace.getConfiguration('ragPilot').update(
+                'embeddingModel',
+                selected.model,
+                vscode.ConfigurationTarget.Global
+            );
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.semanticSearch', async (query?: string) => {
+            // Start from the selected text, if any
+            const selection = vscode.window.activeTextEditor?.selection;
+            const selectedText = selection && !selection.isEmpty && selection.isSingleLine
+                ? vscode.window.activeTextEditor!.document.getText(selection)
+                : '';
+            await semanticSearch.show(typeof query === 'string' ? query : selectedText.trim());
+        })
+    );
+
+    // Target of the source links under @rag answers
+    context.subscriptions.push(
+        vscode.commands.registerCommand('copilot-rag.openCitation', async (metadata: DocumentMetadata) => {
+            try {
+                await openIndexedFile(metadata, repoManager, false);
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to open ${metadata.file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+            }
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('copilot-rag.openChat', async () => {
             // Open chat view and pre-fill with @rag
@@ -402,6 +965,65 @@ export async function activate(context: vscode.ExtensionContext) {
 
 export function deactivate() {}
 
+/**
+ * Indexes a downloaded repository at its checked-out version, re-embedding
+ * only what changed since it was last indexed.
+ */
+async function indexRepository(repo: RepoInfo): Promise<IndexingSummary> {
+    return await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Indexing ${getRepoKey(repo)}`,
+        cancellable: true
+    }, async (progress, token) => {
+        return await repoRefresher.indexRepo(repo, progress, token);
+    });
+}
+
+/**
+ * Removes a source from the index; repositories are also deleted from disk.
+ */
+async function removeSource(source: Source): Promise<void> {
+    await vectorStore.removeSource(source.id);
+    if (source.kind === 'repo') {
+        await repoManager.removeRepo(source.root);
+    }
+}
+
+function splitPatterns(value: string): string[] {
+    return value.split(',').map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+}
+
+/**
+ * Reports a finished indexing run. When the guardrails skipped files, the
+ * notification offers a list of them with the reason for each.
+ */
+function showIndexingSummary(message: string, summary: IndexingSummary): void {
+    const text = `${message} ${formatIndexingSummary(summary)}`;
+    if (summary.skipped.length === 0) {
+        vscode.window.showInformationMessage(text);
+        return;
+    }
+
+    vscode.window.showInformationMessage(text, 'Show Skipped Files').then(async selection => {
+        if (selection !== 'Show Skipped Files') {
+            return;
+        }
+        const lines = [
+            '# Skipped Files',
+            '',
+            'These files were not indexed. The limits are set by `ragPilot.maxFileSizeKB`, `ragPilot.maxDocumentSizeKB`, `ragPilot.maxLineLength`, `ragPilot.skipBinaryFiles` and `ragPilot.skipGeneratedFiles`.',
+            '',
+            ...summary.skipped.map(file => `- \`${file.repo ? `${file.repo}/` : ''}${file.file}\`: ${file.reason}`)
+        ];
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+        await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+    });
+}
+
+function formatArchiveSummary(summary: ArchiveSummary): string {
+    return `${summary.files} files (${summary.chunks} chunks, ${summary.model}) and ${summary.repos} repositories`;
+}
+
 async function discoverAndRegisterCustomPrompts(participant: vscode.ChatParticipant): Promise<void> {
     try {
         // Find all .prompt.md files in .github/prompts/
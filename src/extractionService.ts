@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { DocumentSection, extractDocument, hasBuiltInExtractor } from './documentExtractors';
+import type { ExtractionRequest, ExtractionResponse } from './extractionWorker';
+
+/**
+ * A document that takes longer than this to parse is given up on, and the
+ * worker parsing it is stopped.
+ */
+const EXTRACTION_TIMEOUT_MS = 120_000;
+
+interface PendingRequest {
+    resolve: (response: ExtractionResponse) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Extracts documents on a `worker_threads` worker, so parsing a large PDF or
+ * Word file never blocks the extension host. Extractors registered at
+ * runtime only exist on the host thread and run there.
+ */
+export class ExtractionService implements vscode.Disposable {
+    private worker: Worker | undefined;
+    private readonly pending: Map<number, PendingRequest> = new Map();
+    private nextRequestId = 0;
+
+    constructor(private readonly workerPath: string = path.join(__dirname, 'extractionWorker.js')) {}
+
+    async extract(filePath: string): Promise<DocumentSection[]> {
+        if (!hasBuiltInExtractor(filePath)) {
+            return await extractDocument(filePath);
+        }
+
+        const worker = this.ensureWorker();
+        const timeout = setTimeout(() => {
+            console.error(`Extracting ${filePath} took over ${EXTRACTION_TIMEOUT_MS / 1000}s, stopping the extraction worker`);
+            worker.terminate();
+        }, EXTRACTION_TIMEOUT_MS);
+
+        try {
+            const response = await this.send(worker, { id: this.nextRequestId++, filePath });
+            if ('error' in response) {
+                throw new Error(response.error);
+            }
+            return response.sections;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = undefined;
+    }
+
+    private ensureWorker(): Worker {
+        if (this.worker) {
+            return this.worker;
+        }
+
+        const worker = new Worker(this.workerPath);
+        worker.on('message', (response: ExtractionResponse) => {
+            const request = this.pending.get(response.id);
+            this.pending.delete(response.id);
+            request?.resolve(response);
+        });
+        worker.on('error', error => {
+            console.error('Extraction worker failed:', error);
+        });
+        worker.on('exit', code => {
+            // Fail outstanding documents; the next request starts a replacement
+            if (this.worker === worker) {
+                this.worker = undefined;
+            }
+            for (const request of this.pending.values()) {
+                request.reject(new Error(`Extraction worker exited with code ${code}`));
+            }
+            this.pending.clear();
+        });
+
+        this.worker = worker;
+        return worker;
+    }
+
+    private send(worker: Worker, request: ExtractionRequest): Promise<ExtractionResponse> {
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { resolve, reject });
+            worker.postMessage(request);
+        });
+    }
+}
@@ -0,0 +1,27 @@
+import { parentPort } from 'worker_threads';
+import { DocumentSection, extractDocument } from './documentExtractors';
+
+/**
+ * Worker thread entry point (bundled to `dist/extractionWorker.js`). Parses
+ * PDF, Word, HTML and notebook files with the built-in extractors, off the
+ * extension host thread.
+ */
+
+export type ExtractionRequest = { id: number; filePath: string };
+
+export type ExtractionResponse =
+    | { id: number; sections: DocumentSection[] }
+    | { id: number; error: string };
+
+parentPort?.on('message', async (request: ExtractionRequest) => {
+    try {
+        const sections = await extractDocument(request.filePath);
+        respond({ id: request.id, sections });
+    } catch (error) {
+        respond({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
+
+function respond(response: ExtractionResponse): void {
+    parentPort?.postMessage(response);
+}
@@ -0,0 +1,165 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import ignore, { Ignore } from 'ignore';
+import { minimatch } from 'minimatch';
+
+/** Files listing paths to leave out, in `.gitignore` syntax, relative to their folder. */
+const IGNORE_FILES = ['.gitignore', '.ragignore'];
+
+export interface DiscoveryPatterns {
+    include: string[];
+    exclude: string[];
+}
+
+/**
+ * Finds the files to index under a workspace folder or repository checkout.
+ * Workspace, folder and repository indexing all go through it, so they skip
+ * the same files: whatever a `.gitignore` or `.ragignore` in the top folder
+ * or any folder below excludes, the `.git` folder, and files that do not
+ * match the include and exclude globs. Globs are matched against paths
+ * relative to the source root, the folder that was picked for indexing.
+ */
+export class FileDiscovery {
+    private readonly rules: Map<string, Promise<Ignore | null>> = new Map();
+
+    /**
+     * @param topPath Workspace folder or repository root; ignore files above it are not read.
+     */
+    constructor(private readonly topPath: string, private readonly patterns: DiscoveryPatterns) {}
+
+    /**
+     * Lists the files under the source root (the top folder by default) as
+     * absolute paths.
+     */
+    async findFiles(sourcePath: string = this.topPath): Promise<string[]> {
+        // A folder inside an ignored folder has no files to index
+        if (await this.isIgnoredPath(sourcePath, true)) {
+            return [];
+        }
+
+        const files: string[] = [];
+        await this.walk(sourcePath, sourcePath, files);
+        return files;
+    }
+
+    /**
+     * Whether a single file would be found, e.g. one reported by a file
+     * watcher or a git diff.
+     */
+    async accepts(filePath: string, sourcePath: string = this.topPath): Promise<boolean> {
+        return this.matchesPatterns(toPosixPath(path.relative(sourcePath, filePath))) &&
+            !await this.isIgnoredPath(filePath, false);
+    }
+
+    private async walk(dir: string, sourcePath: string, files: string[]): Promise<void> {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            // Deleted while walking, or not readable
+            return;
+        }
+
+        for (const entry of entries) {
+            if (entry.name === '.git') {
+                continue;
+            }
+
+            const fullPath = path.join(dir, entry.name);
+            const relativePath = toPosixPath(path.relative(sourcePath, fullPath));
+
+            if (entry.isDirectory()) {
+                // Excluded folders are not walked at all, which keeps node_modules cheap
+                if (!this.isExcluded(`${relativePath}/`) && !await this.isIgnoredEntry(fullPath, true)) {
+                    await this.walk(fullPath, sourcePath, files);
+                }
+            } else if (entry.isFile() && this.matchesPatterns(relativePath) && !await this.isIgnoredEntry(fullPath, false)) {
+                files.push(fullPath);
+            }
+        }
+    }
+
+    private matchesPatterns(relativePath: string): boolean {
+        return this.patterns.include.some(pattern => minimatch(relativePath, pattern, { dot: true })) &&
+            !this.isExcluded(relativePath);
+    }
+
+    private isExcluded(relativePath: string): boolean {
+        return this.patterns.exclude.some(pattern => minimatch(relativePath, pattern, { dot: true }));
+    }
+
+    /**
+     * Whether the path or any folder between it and the top folder is
+     * ignored. As in git, files inside an ignored folder cannot be re-included.
+     */
+    private async isIgnoredPath(targetPath: string, isDirectory: boolean): Promise<boolean> {
+        const relativePath = path.relative(this.topPath, targetPath);
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        const segments = relativePath.split(path.sep);
+        let current = this.topPath;
+        for (let i = 0; i < segments.length; i++) {
+            current = path.join(current, segments[i]);
+            if (segments[i] === '.git' || await this.isIgnoredEntry(current, i < segments.length - 1 || isDirectory)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Checks one entry against the ignore files of the folders above it,
+     * nearest first; the nearest file with a matching rule decides, so a
+     * nested `!pattern` can re-include what a parent folder's file ignores.
+     */
+    private async isIgnoredEntry(entryPath: string, isDirectory: boolean): Promise<boolean> {
+        let dir = path.dirname(entryPath);
+        while (true) {
+            const rules = await this.loadRules(dir);
+            if (rules) {
+                const relativePath = toPosixPath(path.relative(dir, entryPath)) + (isDirectory ? '/' : '');
+                const result = rules.test(relativePath);
+                if (result.ignored || result.unignored) {
+                    return result.ignored;
+                }
+            }
+
+            const parent = path.dirname(dir);
+            if (dir === this.topPath || parent === dir || !dir.startsWith(this.topPath)) {
+                return false;
+            }
+            dir = parent;
+        }
+    }
+
+    private loadRules(dir: string): Promise<Ignore | null> {
+        let rules = this.rules.get(dir);
+        if (!rules) {
+            rules = readIgnoreFiles(dir);
+            this.rules.set(dir, rules);
+        }
+        return rules;
+    }
+}
+
+/**
+ * Reads the ignore files of one folder; null if it has none.
+ */
+async function readIgnoreFiles(dir: string): Promise<Ignore | null> {
+    let rules: Ignore | null = null;
+    for (const name of IGNORE_FILES) {
+        try {
+            const content = await fs.readFile(path.join(dir, name), 'utf-8');
+            rules = (rules ?? ignore()).add(content);
+        } catch (error) {
+            // No such ignore file in this folder
+        }
+    }
+    return rules;
+}
+
+function toPosixPath(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { getDocumentExtractor } from './documentExtractors';
+
+/** Bytes sniffed for NUL characters, as git does to tell binary files apart. */
+const BINARY_SNIFF_BYTES = 8000;
+
+/** Lines at the top of a file searched for a generated-code marker. */
+const GENERATED_HEADER_LINES = 10;
+
+const LOCKFILE_NAMES = new Set([
+    'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock',
+    'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock',
+    'go.sum', 'packages.lock.json', 'flake.lock', 'mix.lock', 'pubspec.lock', 'Podfile.lock'
+]);
+
+/** `@generated` (Meta, protobuf), `Code generated ... DO NOT EDIT.` (Go) and `<auto-generated>` (.NET). */
+const GENERATED_MARKERS = [/@generated\b/, /\bDO NOT EDIT\b/, /<auto-generated\b/i];
+
+export type SkipKind = 'binary' | 'size' | 'lineLength' | 'generated' | 'noText';
+
+export interface SkipReason {
+    kind: SkipKind;
+    /** Human-readable detail, e.g. `612 KB, over the 512 KB limit`. */
+    message: string;
+}
+
+export interface FileGuardOptions {
+    skipBinary: boolean;
+    /** 0 disables the limit. */
+    maxFileSizeKB: number;
+    /** Size of a PDF, Word, HTML or notebook file before extraction; 0 disables the limit. */
+    maxDocumentSizeKB: number;
+    /** 0 disables the limit. */
+    maxLineLength: number;
+    skipGenerated: boolean;
+}
+
+export function getFileGuardOptions(): FileGuardOptions {
+    const config = vscode.workspace.getConfiguration('ragPilot');
+    return {
+        skipBinary: config.get<boolean>('skipBinaryFiles') ?? true,
+        maxFileSizeKB: Math.max(0, config.get<number>('maxFileSizeKB') ?? 512),
+        maxDocumentSizeKB: Math.max(0, config.get<number>('maxDocumentSizeKB') ?? 20480),
+        maxLineLength: Math.max(0, config.get<number>('maxLineLength') ?? 1000),
+        skipGenerated: config.get<boolean>('skipGeneratedFiles') ?? true
+    };
+}
+
+/**
+ * Checks what can be told without reading the whole file: lockfile names,
+ * the file size and binary content. Returns why the file should be skipped,
+ * or undefined to index it. Documents with an extractor are binary or markup
+ * by nature, so only their raw size is capped here, before they are parsed;
+ * `checkExtractedText` checks their text.
+ */
+export async function checkFile(filePath: string, options: FileGuardOptions): Promise<SkipReason | undefined> {
+    if (options.skipGenerated && LOCKFILE_NAMES.has(path.basename(filePath))) {
+        return { kind: 'generated', message: 'lockfile' };
+    }
+
+    const { size } = await fs.stat(filePath);
+
+    if (getDocumentExtractor(filePath)) {
+        if (options.maxDocumentSizeKB > 0 && size > options.maxDocumentSizeKB * 1024) {
+            return { kind: 'size', message: `${Math.round(size / 1024)} KB, over the ${options.maxDocumentSizeKB} KB document limit` };
+        }
+        return undefined;
+    }
+
+    if (options.maxFileSizeKB > 0 && size > options.maxFileSizeKB * 1024) {
+        return { kind: 'size', message: `${Math.round(size / 1024)} KB, over the ${options.maxFileSizeKB} KB limit` };
+    }
+
+    if (options.skipBinary && await hasBinaryContent(filePath)) {
+        return { kind: 'binary', message: 'binary content' };
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks the text of a file that passed `checkFile` for generated-code
+ * markers and overly long lines, which usually mean minified code.
+ */
+export function checkContent(text: string, options: FileGuardOptions): SkipReason | undefined {
+    const lines = text.split('\n');
+
+    if (options.skipGenerated) {
+        const header = lines.slice(0, GENERATED_HEADER_LINES).join('\n');
+        const marker = GENERATED_MARKERS.find(pattern => pattern.test(header));
+        if (marker) {
+            return { kind: 'generated', message: `generated code (${header.match(marker)![0]} header)` };
+        }
+    }
+
+    if (options.maxLineLength > 0) {
+        const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+        if (longest > options.maxLineLength) {
+            return { kind: 'lineLength', message: `a ${longest}-character line, over the ${options.maxLineLength} character limit` };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks the text extracted from a PDF, Word, HTML or notebook file. The size
+ * limit applies to the text, since the file itself is mostly fonts, images
+ * and markup; scanned documents without a text layer have no text at all.
+ */
+export function checkExtractedText(text: string, options: FileGuardOptions): SkipReason | undefined {
+    if (!text.trim()) {
+        return { kind: 'noText', message: 'no extractable text' };
+    }
+
+    const size = Buffer.byteLength(text, 'utf-8');
+    if (options.maxFileSizeKB > 0 && size > options.maxFileSizeKB * 1024) {
+        return { kind: 'size', message: `${Math.round(size / 1024)} KB of text, over the ${options.maxFileSizeKB} KB limit` };
+    }
+
+    return undefined;
+}
+
+async function hasBinaryContent(filePath: string): Promise<boolean> {
+    const file = await fs.open(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+        const { bytesRead } = await file.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+        return buffer.subarray(0, bytesRead).includes(0);
+    } finally {
+        await file.close();
+    }
+}
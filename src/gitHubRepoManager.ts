@@ -1,20 +1,83 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import simpleGit from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
 
 export interface RepoInfo {
-    name: string;
+    /** Remote host (without port), or `local` for `file://` remotes. */
+    host: string;
+    /** Path of the repository on the host without its last segment, e.g. `group/subgroup`. */
     owner: string;
+    name: string;
     url: string;
     path: string;
+    /** Branch, tag or commit the repo is pinned to; the remote's default branch if unset. */
+    ref?: string;
+    /** Commit SHA currently checked out. */
+    commit?: string;
+    /** Commit SHA the index was last built from; diffed against on refresh. */
+    indexedCommit?: string;
+    /** Background refresh interval; no scheduled refresh if unset. */
+    refreshIntervalHours?: number;
     indexedAt: Date;
 }
 
+export interface RepoChanges {
+    /** Added or modified files, relative to the repository root. */
+    changed: string[];
+    /** Deleted files, including the old paths of renamed files. */
+    deleted: string[];
+}
+
+/** Prefix of the secret storage keys holding per-host access tokens. */
+const TOKEN_SECRET_PREFIX = 'ragPilot.gitToken.';
+
+/** Username sent with a bare token, for hosts that expect a specific one. */
+const TOKEN_USERNAMES: Record<string, string> = {
+    'github.com': 'x-access-token',
+    'gitlab.com': 'oauth2',
+    'bitbucket.org': 'x-token-auth'
+};
+
+/**
+ * Identifies a repository by host plus path, so the same `owner/name` on two
+ * hosts does not collide. Used for the repository map and chunk metadata.
+ */
+export function getRepoKey(repo: Pick<RepoInfo, 'host' | 'owner' | 'name'>): string {
+    return `${repo.host}/${repo.owner}/${repo.name}`;
+}
+
+/**
+ * Names the checked-out version for citations: the pinned ref, or the short
+ * commit SHA when the repo follows its default branch.
+ */
+export function getRepoVersion(repo: Pick<RepoInfo, 'ref' | 'commit'>): string | undefined {
+    return repo.ref || repo.commit?.slice(0, 7);
+}
+
+/**
+ * Whether host, owner and name are safe to build a clone path from: every
+ * path segment must be non-empty and must not be `.` or `..`, and none may
+ * contain a path separator other than the `/` between owner groups.
+ */
+function isValidRepoName(repo: Pick<RepoInfo, 'host' | 'owner' | 'name'>): boolean {
+    if (!repo || typeof repo.host !== 'string' || typeof repo.owner !== 'string' || typeof repo.name !== 'string') {
+        return false;
+    }
+    return [repo.host, ...repo.owner.split('/'), repo.name].every(segment =>
+        segment.length > 0 && segment !== '.' && segment !== '..' && !/[\/\\]/.test(segment)
+    );
+}
+
 export class GitHubRepoManager {
     private readonly reposPath: string;
     private readonly reposMetadataPath: string;
     private repos: Map<string, RepoInfo> = new Map();
+    private legacyRepoKeys: Map<string, string> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when repositories are added, removed or their metadata changes. */
+    readonly onDidChangeRepos = this.changeEmitter.event;
 
     constructor(private context: vscode.ExtensionContext) {
         this.reposPath = path.join(context.globalStorageUri.fsPath, 'repos');
@@ -33,15 +96,18 @@ export class GitHubRepoManager {
         await this.loadReposMetadata();
     }
 
-    async downloadRepo(repoUrl: string): Promise<RepoInfo> {
-        // Parse GitHub URL
-        const repoInfo = this.parseGitHubUrl(repoUrl);
+    /**
+     * Clones a repository, checked out at `ref` if given. If it is already
+     * known, offers to update it instead (switching to `ref` if given).
+     */
+    async downloadRepo(repoUrl: string, ref?: string): Promise<RepoInfo> {
+        const repoInfo = this.parseRepoUrl(repoUrl);
         if (!repoInfo) {
-            throw new Error('Invalid GitHub repository URL');
+            throw new Error('Invalid git repository URL');
         }
 
-        const repoKey = `${repoInfo.owner}/${repoInfo.name}`;
-        const repoPath = path.join(this.reposPath, repoInfo.owner, repoInfo.name);
+        const repoKey = getRepoKey(repoInfo);
+        const repoPath = this.getClonePath(repoInfo);
 
         // Check if repo already exists
         if (this.repos.has(repoKey)) {
@@ -51,6 +117,9 @@ export class GitHubRepoManager {
             });
 
             if (update === 'Update') {
+                if (ref) {
+                    existingRepo.ref = ref;
+                }
                 await this.updateRepo(existingRepo);
                 return existingRepo;
             } else {
@@ -59,28 +128,38 @@ export class GitHubRepoManager {
         }
 
         // Clone the repository
-        await vscode.window.withProgress({
+        const commit = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: `Downloading ${repoKey}`,
             cancellable: false
         }, async (progress) => {
             progress.report({ message: 'Cloning repository...' });
-
-            // Ensure parent directory exists
-            await fs.mkdir(path.dirname(repoPath), { recursive: true });
-
-            const git = simpleGit();
-            await git.clone(repoInfo.url, repoPath, ['--depth', '1']);
+            await this.cloneRepo(repoInfo.url, repoInfo.host, repoPath);
+
+            const repoGit = await this.createGit(repoInfo.url, repoInfo.host, repoPath);
+            if (ref) {
+                progress.report({ message: `Checking out ${ref}...` });
+                try {
+                    await this.checkoutRef(repoGit, ref);
+                } catch (error) {
+                    await fs.rm(repoPath, { recursive: true, force: true });
+                    throw new Error(`Could not check out ${ref}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
 
             progress.report({ message: 'Repository downloaded!' });
+            return (await repoGit.revparse(['HEAD'])).trim();
         });
 
         // Store repo metadata
         const repo: RepoInfo = {
+            host: repoInfo.host,
             name: repoInfo.name,
             owner: repoInfo.owner,
             url: repoInfo.url,
             path: repoPath,
+            ...(ref ? { ref } : {}),
+            commit,
             indexedAt: new Date()
         };
 
@@ -90,22 +169,115 @@ export class GitHubRepoManager {
         return repo;
     }
 
+    /**
+     * Fetches the latest commit of the repo's ref (or default branch) and
+     * checks it out.
+     */
     async updateRepo(repo: RepoInfo): Promise<void> {
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Updating ${repo.owner}/${repo.name}`,
+            title: `Updating ${getRepoKey(repo)}`,
             cancellable: false
         }, async (progress) => {
-            progress.report({ message: 'Pulling latest changes...' });
+            progress.report({ message: `Fetching ${repo.ref || 'latest changes'}...` });
+            await this.fetchLatest(repo);
+            progress.report({ message: 'Repository updated!' });
+        });
+    }
 
-            const git = simpleGit(repo.path);
-            await git.pull();
+    /**
+     * Same as `updateRepo`, without progress UI, for background refreshes.
+     */
+    async fetchLatest(repo: RepoInfo): Promise<void> {
+        // Repos imported from another machine are cloned on their first refresh
+        try {
+            await fs.access(repo.path);
+        } catch {
+            await this.cloneRepo(repo.url, repo.host, repo.path);
+        }
 
-            repo.indexedAt = new Date();
-            await this.saveReposMetadata();
+        const git = await this.createGit(repo.url, repo.host, repo.path);
+        await this.checkoutRef(git, repo.ref || 'HEAD');
 
-            progress.report({ message: 'Repository updated!' });
-        });
+        repo.commit = (await git.revparse(['HEAD'])).trim();
+        repo.indexedAt = new Date();
+        await this.saveReposMetadata();
+    }
+
+    /**
+     * Lists the files that differ between the last indexed commit and the
+     * checked-out commit. Returns undefined if the repo has no indexed commit
+     * or it is no longer available locally, in which case a full re-index is
+     * needed.
+     */
+    async getChangedFiles(repo: RepoInfo): Promise<RepoChanges | undefined> {
+        if (!repo.indexedCommit || !repo.commit) {
+            return undefined;
+        }
+        if (repo.indexedCommit === repo.commit) {
+            return { changed: [], deleted: [] };
+        }
+
+        const git = simpleGit(repo.path);
+        let output: string;
+        try {
+            // Renames are reported as a delete plus an add, so old paths get purged
+            output = await git.raw(['diff', '--name-status', '--no-renames', '-z', repo.indexedCommit, repo.commit]);
+        } catch (error) {
+            console.log(`Cannot diff ${getRepoKey(repo)} against ${repo.indexedCommit}, re-indexing fully:`, error);
+            return undefined;
+        }
+
+        // -z output alternates status and path, separated by NUL
+        const changes: RepoChanges = { changed: [], deleted: [] };
+        const fields = output.split('\0');
+        for (let i = 0; i + 1 < fields.length; i += 2) {
+            const status = fields[i];
+            const file = fields[i + 1];
+            if (status && file) {
+                changes[status === 'D' ? 'deleted' : 'changed'].push(file);
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Records that the index now reflects the checked-out commit.
+     */
+    async markIndexed(repo: RepoInfo): Promise<void> {
+        repo.indexedCommit = repo.commit;
+        await this.saveReposMetadata();
+    }
+
+    async setRefreshInterval(repoKey: string, hours: number | undefined): Promise<void> {
+        const repo = this.repos.get(repoKey);
+        if (!repo) {
+            throw new Error('Repository not found');
+        }
+
+        repo.refreshIntervalHours = hours;
+        await this.saveReposMetadata();
+    }
+
+    /**
+     * Pins a repo to a branch, tag or commit (or back to the default branch
+     * when `ref` is empty) and checks it out.
+     */
+    async setRepoRef(repoKey: string, ref: string | undefined): Promise<RepoInfo> {
+        const repo = this.repos.get(repoKey);
+        if (!repo) {
+            throw new Error('Repository not found');
+        }
+
+        const previousRef = repo.ref;
+        repo.ref = ref || undefined;
+        try {
+            await this.updateRepo(repo);
+        } catch (error) {
+            repo.ref = previousRef;
+            throw error;
+        }
+        return repo;
     }
 
     async removeRepo(repoKey: string): Promise<void> {
@@ -115,6 +287,7 @@ export class GitHubRepoManager {
         }
 
         // Delete repository directory
+        this.assertInReposPath(repo.path);
         await fs.rm(repo.path, { recursive: true, force: true });
 
         // Remove from metadata
@@ -136,91 +309,254 @@ export class GitHubRepoManager {
         await this.saveReposMetadata();
     }
 
+    /**
+     * Returns the old `owner/name` keys of repos loaded from metadata written
+     * before repos were keyed by host, mapped to their new keys, and saves the
+     * migrated metadata. Each rename is returned once.
+     */
+    async takeLegacyRepoKeys(): Promise<Map<string, string>> {
+        const renames = this.legacyRepoKeys;
+        this.legacyRepoKeys = new Map();
+        if (renames.size > 0) {
+            await this.saveReposMetadata();
+        }
+        return renames;
+    }
+
+    /**
+     * Adds repos from an index archive. Known repos keep their local clone;
+     * their indexed commit is taken from the archive, since the imported
+     * chunks now describe that commit. Unknown repos are registered without
+     * a clone, which is created on their next refresh. Entries whose URL is
+     * invalid or does not match their host, owner and name are dropped.
+     * Returns the repos that were imported.
+     */
+    async importRepos(repos: RepoInfo[]): Promise<RepoInfo[]> {
+        const imported: RepoInfo[] = [];
+        for (const archived of repos) {
+            // The same checks as a URL typed by the user; the key must match the URL
+            const parsed = typeof archived?.url === 'string' ? this.parseRepoUrl(archived.url) : null;
+            if (!parsed || !isValidRepoName(archived) || getRepoKey(parsed) !== getRepoKey(archived)) {
+                console.error('Skipping repository with an invalid name in the archive:', archived?.url);
+                continue;
+            }
+
+            const repoKey = getRepoKey(archived);
+            const existing = this.repos.get(repoKey);
+            if (existing) {
+                existing.indexedCommit = archived.indexedCommit;
+                imported.push(existing);
+                continue;
+            }
+
+            const repo: RepoInfo = {
+                host: archived.host,
+                owner: archived.owner,
+                name: archived.name,
+                url: archived.url,
+                path: this.getClonePath(archived),
+                ...(archived.ref ? { ref: archived.ref } : {}),
+                indexedCommit: archived.indexedCommit,
+                indexedAt: new Date(archived.indexedAt)
+            };
+            this.repos.set(repoKey, repo);
+            imported.push(repo);
+        }
+        await this.saveReposMetadata();
+        return imported;
+    }
+
     getRepos(): RepoInfo[] {
         return Array.from(this.repos.values());
     }
 
+    getRepo(repoKey: string): RepoInfo | undefined {
+        return this.repos.get(repoKey);
+    }
+
     getRepoPath(repoKey: string): string | undefined {
         return this.repos.get(repoKey)?.path;
     }
 
-    async getAllRepoFiles(repoKey: string): Promise<string[]> {
-        const repo = this.repos.get(repoKey);
-        if (!repo) {
-            return [];
+    /**
+     * Stores the access token used for HTTPS remotes on a host. An empty token
+     * removes it. A token may be given as `user:token` for hosts that need a
+     * specific username.
+     */
+    async setHostToken(host: string, token: string): Promise<void> {
+        const key = TOKEN_SECRET_PREFIX + host.toLowerCase();
+        if (token) {
+            await this.context.secrets.store(key, token);
+        } else {
+            await this.context.secrets.delete(key);
         }
+    }
 
-        return await this.getFilesRecursive(repo.path);
+    async hasHostToken(host: string): Promise<boolean> {
+        return (await this.context.secrets.get(TOKEN_SECRET_PREFIX + host.toLowerCase())) !== undefined;
     }
 
-    private async getFilesRecursive(dir: string): Promise<string[]> {
-        const files: string[] = [];
-        const entries = await fs.readdir(dir, { withFileTypes: true });
+    /**
+     * Creates a git client for a remote. The host's token is passed as an
+     * HTTP header for this invocation only, so it never ends up in the
+     * clone's `.git/config`.
+     */
+    private async createGit(url: string, host: string, baseDir?: string): Promise<SimpleGit> {
+        const config: string[] = [];
+        const token = /^https?:\/\//.test(url)
+            ? await this.context.secrets.get(TOKEN_SECRET_PREFIX + host)
+            : undefined;
+        if (token) {
+            const credentials = token.includes(':') ? token : `${TOKEN_USERNAMES[host] || 'git'}:${token}`;
+            config.push(`http.extraHeader=Authorization: Basic ${Buffer.from(credentials).toString('base64')}`);
+        }
 
-        for (const entry of entries) {
-            // Skip .git directory
-            if (entry.name === '.git') {
-                continue;
-            }
+        const git = baseDir ? simpleGit({ baseDir, config }) : simpleGit({ config });
+        // Fail instead of waiting for a credential prompt nobody can answer
+        return git.env({ ...process.env, GIT_TERMINAL_PROMPT: '0' });
+    }
 
-            const fullPath = path.join(dir, entry.name);
+    private getClonePath(repo: Pick<RepoInfo, 'host' | 'owner' | 'name'>): string {
+        const clonePath = path.join(
+            this.reposPath,
+            ...[repo.host, ...repo.owner.split('/'), repo.name].map(segment => segment.replace(/[:*?"<>|]/g, '_'))
+        );
+        this.assertInReposPath(clonePath);
+        return clonePath;
+    }
 
-            if (entry.isDirectory()) {
-                const subFiles = await this.getFilesRecursive(fullPath);
-                files.push(...subFiles);
-            } else if (this.isIndexableFile(entry.name)) {
-                files.push(fullPath);
-            }
+    /**
+     * Guards every clone and delete: a repo path must be a directory below
+     * the extension's repos folder, never the folder itself or anything outside.
+     */
+    private assertInReposPath(repoPath: string): void {
+        if (!path.resolve(repoPath).startsWith(path.resolve(this.reposPath) + path.sep)) {
+            throw new Error(`Refusing to use ${repoPath}: it is outside the repository storage folder`);
         }
+    }
+
+    private async cloneRepo(url: string, host: string, repoPath: string): Promise<void> {
+        this.assertInReposPath(repoPath);
+
+        // Ensure parent directory exists
+        await fs.mkdir(path.dirname(repoPath), { recursive: true });
 
-        return files;
+        const git = await this.createGit(url, host);
+        try {
+            await git.clone(url, repoPath, ['--depth', '1']);
+        } catch (error) {
+            // Don't leave a partial checkout behind
+            await fs.rm(repoPath, { recursive: true, force: true });
+            throw new Error(await this.describeCloneError(error, url, host));
+        }
     }
 
-    private isIndexableFile(filename: string): boolean {
-        const indexableExtensions = [
-            '.ts', '.js', '.tsx', '.jsx',
-            '.py', '.java', '.cpp', '.c', '.h', '.cs',
-            '.go', '.rs', '.rb', '.php', '.swift',
-            '.md', '.txt', '.json', '.yaml', '.yml'
-        ];
+    /**
+     * Checks out a branch, tag or commit in a shallow clone, detached so that
+     * switching between refs never needs a merge.
+     */
+    private async checkoutRef(git: SimpleGit, ref: string): Promise<void> {
+        try {
+            // Branches, tags and full SHAs can be fetched by name at depth 1
+            await git.fetch(['--depth', '1', 'origin', ref]);
+            await git.checkout(['--detach', 'FETCH_HEAD']);
+        } catch (error) {
+            // Abbreviated SHAs can only be resolved against the full history
+            console.log(`Fetching full history to resolve ${ref}:`, error);
+            const shallow = (await git.revparse(['--is-shallow-repository'])).trim() === 'true';
+            await git.fetch(shallow ? ['--unshallow', '--tags', 'origin'] : ['--tags', 'origin']);
+            await git.checkout(['--detach', ref]);
+        }
+    }
 
-        return indexableExtensions.some(ext => filename.endsWith(ext));
+    private async describeCloneError(error: unknown, url: string, host: string): Promise<string> {
+        const message = error instanceof Error ? error.message : String(error);
+        const authFailed = /authentication|could not read username|permission denied|403|401|not found/i.test(message);
+        if (authFailed && /^https?:\/\//.test(url) && !await this.hasHostToken(host)) {
+            return `Failed to clone ${url}. If the repository is private, store an access token for ${host} with "RAG Pilot: Set Git Access Token". ${message}`;
+        }
+        return `Failed to clone ${url}: ${message}`;
     }
 
-    private parseGitHubUrl(url: string): { owner: string; name: string; url: string } | null {
-        // Support various GitHub URL formats
-        const patterns = [
-            /github\.com\/([^\/]+)\/([^\/\.]+)/,
-            /^([^\/]+)\/([^\/]+)$/ // owner/repo format
-        ];
+    /**
+     * Parses `owner/repo` (GitHub), HTTPS, SSH (`ssh://` or `user@host:path`)
+     * and `file://` remotes.
+     */
+    private parseRepoUrl(input: string): { host: string; owner: string; name: string; url: string } | null {
+        const url = input.trim().replace(/\/+$/, '');
+
+        // owner/repo shorthand
+        const shorthand = url.match(/^([\w.-]+)\/([\w.-]+)$/);
+        if (shorthand) {
+            const repoInfo = this.toRepoInfo('github.com', [shorthand[1], shorthand[2]], url);
+            return isValidRepoName(repoInfo) ? repoInfo : null;
+        }
 
-        for (const pattern of patterns) {
-            const match = url.match(pattern);
-            if (match) {
-                const owner = match[1];
-                const name = match[2].replace(/\.git$/, '');
-                return {
-                    owner,
-                    name,
-                    url: `https://github.com/${owner}/${name}.git`
-                };
-            }
+        let host: string;
+        let repoPath: string;
+
+        const fileMatch = url.match(/^file:\/\/(.+)$/);
+        const urlMatch = url.match(/^(?:https?|ssh|git):\/\/(?:[^@\/]+@)?([^\/:]+)(?::\d+)?\/(.+)$/);
+        const scpMatch = url.match(/^(?:[^@\/]+@)?([^\/:]+):(?!\/\/)(.+)$/);
+        if (fileMatch) {
+            host = 'local';
+            repoPath = fileMatch[1];
+        } else if (urlMatch) {
+            host = urlMatch[1];
+            repoPath = urlMatch[2];
+        } else if (scpMatch) {
+            host = scpMatch[1];
+            repoPath = scpMatch[2];
+        } else if (url.startsWith('github.com/')) {
+            host = 'github.com';
+            repoPath = url.slice('github.com/'.length);
+        } else {
+            return null;
+        }
+
+        let segments = repoPath.split('/').filter(segment => segment.length > 0);
+        if (host.toLowerCase() === 'github.com') {
+            // Accept browser URLs such as github.com/owner/repo/tree/main
+            segments = segments.slice(0, 2);
+        }
+        if (segments.length < 2 && host !== 'local') {
+            return null;
         }
 
-        return null;
+        const repoInfo = this.toRepoInfo(host, segments, url);
+        return isValidRepoName(repoInfo) ? repoInfo : null;
+    }
+
+    private toRepoInfo(host: string, segments: string[], url: string): { host: string; owner: string; name: string; url: string } {
+        const name = segments[segments.length - 1].replace(/\.git$/, '');
+        const owner = segments.slice(0, -1).join('/') || '_';
+        const normalizedHost = host.toLowerCase();
+        return {
+            host: normalizedHost,
+            owner,
+            name,
+            // SSH remotes keep their form so the user's keys are used
+            url: normalizedHost === 'github.com' && !/^(?:ssh|git):\/\/|^[^@\/:]+@/.test(url)
+                ? `https://github.com/${owner}/${name}.git`
+                : url
+        };
     }
 
     private async loadReposMetadata(): Promise<void> {
         try {
             const data = await fs.readFile(this.reposMetadataPath, 'utf-8');
             const reposArray: RepoInfo[] = JSON.parse(data);
-            
-            this.repos = new Map(
-                reposArray.map(repo => [
-                    `${repo.owner}/${repo.name}`,
-                    { ...repo, indexedAt: new Date(repo.indexedAt) }
-                ])
-            );
+
+            this.repos = new Map();
+            for (const stored of reposArray) {
+                const repo = { ...stored, indexedAt: new Date(stored.indexedAt) };
+                if (!repo.host) {
+                    // Repos added before generic remotes were keyed by owner/name on GitHub
+                    repo.host = 'github.com';
+                    this.legacyRepoKeys.set(`${repo.owner}/${repo.name}`, getRepoKey(repo));
+                }
+                this.repos.set(getRepoKey(repo), repo);
+            }
         } catch (error) {
             // File doesn't exist or is invalid, start fresh
             this.repos = new Map();
@@ -234,5 +570,6 @@ export class GitHubRepoManager {
             JSON.stringify(reposArray, null, 2),
             'utf-8'
         );
+        this.changeEmitter.fire();
     }
 }
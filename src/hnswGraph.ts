@@ -0,0 +1,286 @@
+/** Bumped whenever the serialized layout changes. */
+const GRAPH_FORMAT_VERSION = 1;
+
+/** Levels above this are never drawn; keeps a pathological random draw bounded. */
+const MAX_LEVEL = 16;
+
+export interface ScoredNode {
+    node: number;
+    score: number;
+}
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin, 2016) for
+ * approximate nearest neighbour search. Nodes are dense numeric ids and
+ * similarities (higher is closer) come from a callback, so the graph does
+ * not care how the vectors are stored. Deleted nodes are not removed: they
+ * keep routing searches and are filtered from results by the caller.
+ */
+export class HnswGraph {
+    private levels: number[] = [];
+    private links: number[][][] = [];
+    private entryPoint = -1;
+    private maxLevel = -1;
+    private readonly levelFactor: number;
+
+    constructor(
+        private readonly similarity: (a: number, b: number) => number,
+        private readonly m = 16,
+        private readonly efConstruction = 64
+    ) {
+        this.levelFactor = 1 / Math.log(m);
+    }
+
+    /** Number of node ids covered, including ids that were never added. */
+    get nodeCount(): number {
+        return this.levels.length;
+    }
+
+    add(node: number): void {
+        const level = Math.min(MAX_LEVEL, Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor));
+        while (this.levels.length <= node) {
+            this.levels.push(-1);
+            this.links.push([]);
+        }
+        this.levels[node] = level;
+        this.links[node] = Array.from({ length: level + 1 }, () => []);
+
+        if (this.entryPoint < 0) {
+            this.entryPoint = node;
+            this.maxLevel = level;
+            return;
+        }
+
+        const score = (other: number) => this.similarity(node, other);
+        let entries = [this.greedyDescend(score, level)];
+
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(score, entries, this.efConstruction, layer);
+            const neighbors = this.selectNeighbors(candidates, this.m);
+            this.links[node][layer] = neighbors.map(neighbor => neighbor.node);
+
+            const maxLinks = layer === 0 ? this.m * 2 : this.m;
+            for (const neighbor of neighbors) {
+                const neighborLinks = this.links[neighbor.node][layer];
+                neighborLinks.push(node);
+                if (neighborLinks.length > maxLinks) {
+                    const scored = neighborLinks
+                        .map(other => ({ node: other, score: this.similarity(neighbor.node, other) }))
+                        .sort((a, b) => b.score - a.score);
+                    this.links[neighbor.node][layer] = this.selectNeighbors(scored, maxLinks).map(kept => kept.node);
+                }
+            }
+
+            entries = candidates;
+        }
+
+        if (level > this.maxLevel) {
+            this.maxLevel = level;
+            this.entryPoint = node;
+        }
+    }
+
+    /**
+     * Returns up to `k` accepted nodes closest to the query, best first.
+     * Rejected nodes are still traversed, so a restrictive `accept` may
+     * return fewer than `k` results; widen `ef` or fall back to a scan.
+     */
+    search(score: (node: number) => number, k: number, ef: number, accept: (node: number) => boolean): ScoredNode[] {
+        if (this.entryPoint < 0) {
+            return [];
+        }
+
+        const entry = this.greedyDescend(score, 0);
+        return this.searchLayer(score, [entry], Math.max(ef, k), 0)
+            .filter(candidate => accept(candidate.node))
+            .slice(0, k);
+    }
+
+    /**
+     * Renumbers nodes after storage compaction. `mapping[old]` is the new id,
+     * or -1 for nodes that were dropped; links to dropped nodes are removed.
+     */
+    compact(mapping: Int32Array, nodeCount: number): void {
+        const levels: number[] = new Array(nodeCount).fill(-1);
+        const links: number[][][] = Array.from({ length: nodeCount }, () => []);
+
+        for (let old = 0; old < this.levels.length; old++) {
+            const node = mapping[old];
+            if (node < 0 || this.levels[old] < 0) {
+                continue;
+            }
+            levels[node] = this.levels[old];
+            links[node] = this.links[old].map(layer => layer.map(other => mapping[other]).filter(other => other >= 0));
+        }
+
+        this.levels = levels;
+        this.links = links;
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+        for (let node = 0; node < levels.length; node++) {
+            if (levels[node] > this.maxLevel) {
+                this.maxLevel = levels[node];
+                this.entryPoint = node;
+            }
+        }
+    }
+
+    serialize(): Buffer {
+        const values: number[] = [GRAPH_FORMAT_VERSION, this.m, this.entryPoint, this.maxLevel, this.levels.length];
+        for (let node = 0; node < this.levels.length; node++) {
+            values.push(this.levels[node]);
+            for (let layer = 0; layer <= this.levels[node]; layer++) {
+                const layerLinks = this.links[node][layer];
+                values.push(layerLinks.length, ...layerLinks);
+            }
+        }
+        const data = Int32Array.from(values);
+        return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    /**
+     * Restores a serialized graph, or returns undefined if the data is from
+     * another format version or was built with a different `m`.
+     */
+    static deserialize(
+        buffer: Buffer,
+        similarity: (a: number, b: number) => number,
+        m = 16,
+        efConstruction = 64
+    ): HnswGraph | undefined {
+        if (buffer.byteLength < 20 || buffer.byteLength % 4 !== 0) {
+            return undefined;
+        }
+
+        const bytes = new Uint8Array(buffer.byteLength);
+        bytes.set(buffer);
+        const data = new Int32Array(bytes.buffer);
+        if (data[0] !== GRAPH_FORMAT_VERSION || data[1] !== m) {
+            return undefined;
+        }
+
+        const graph = new HnswGraph(similarity, m, efConstruction);
+        graph.entryPoint = data[2];
+        graph.maxLevel = data[3];
+        const nodeCount = data[4];
+
+        let offset = 5;
+        for (let node = 0; node < nodeCount; node++) {
+            const level = data[offset++];
+            graph.levels.push(level);
+            const nodeLinks: number[][] = [];
+            for (let layer = 0; layer <= level; layer++) {
+                const count = data[offset++];
+                nodeLinks.push(Array.from(data.subarray(offset, offset + count)));
+                offset += count;
+            }
+            graph.links.push(nodeLinks);
+        }
+
+        return offset === data.length ? graph : undefined;
+    }
+
+    /**
+     * Walks down from the top layer to `targetLevel + 1`, moving to the best
+     * neighbour until no neighbour is closer.
+     */
+    private greedyDescend(score: (node: number) => number, targetLevel: number): ScoredNode {
+        let current: ScoredNode = { node: this.entryPoint, score: score(this.entryPoint) };
+
+        for (let layer = this.maxLevel; layer > targetLevel; layer--) {
+            let improved = true;
+            while (improved) {
+                improved = false;
+                for (const neighbor of this.links[current.node][layer] ?? []) {
+                    const neighborScore = score(neighbor);
+                    if (neighborScore > current.score) {
+                        current = { node: neighbor, score: neighborScore };
+                        improved = true;
+                    }
+                }
+            }
+        }
+
+        return current;
+    }
+
+    /**
+     * Best-first search of one layer; returns up to `ef` nodes, best first.
+     */
+    private searchLayer(score: (node: number) => number, entries: ScoredNode[], ef: number, layer: number): ScoredNode[] {
+        const visited = new Set(entries.map(entry => entry.node));
+        // Candidates are explored best first (popped from the end); results keep the worst last
+        const candidates = [...entries].sort((a, b) => a.score - b.score);
+        const results = [...entries].sort((a, b) => b.score - a.score).slice(0, ef);
+
+        while (candidates.length > 0) {
+            const candidate = candidates.pop()!;
+            if (results.length >= ef && candidate.score < results[results.length - 1].score) {
+                break;
+            }
+
+            for (const neighbor of this.links[candidate.node][layer] ?? []) {
+                if (visited.has(neighbor)) {
+                    continue;
+                }
+                visited.add(neighbor);
+
+                const neighborScore = score(neighbor);
+                if (results.length < ef || neighborScore > results[results.length - 1].score) {
+                    const scored = { node: neighbor, score: neighborScore };
+                    insertSorted(candidates, scored, (a, b) => a.score - b.score);
+                    insertSorted(results, scored, (a, b) => b.score - a.score);
+                    if (results.length > ef) {
+                        results.pop();
+                    }
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Neighbour selection heuristic from the HNSW paper: prefers candidates
+     * closer to the node than to any neighbour already picked, which keeps
+     * links spread across clusters, then fills up with the rest.
+     */
+    private selectNeighbors(candidates: ScoredNode[], count: number): ScoredNode[] {
+        const selected: ScoredNode[] = [];
+        const skipped: ScoredNode[] = [];
+
+        for (const candidate of candidates) {
+            if (selected.length >= count) {
+                break;
+            }
+            if (selected.every(picked => this.similarity(candidate.node, picked.node) < candidate.score)) {
+                selected.push(candidate);
+            } else {
+                skipped.push(candidate);
+            }
+        }
+
+        for (const candidate of skipped) {
+            if (selected.length >= count) {
+                break;
+            }
+            selected.push(candidate);
+        }
+
+        return selected;
+    }
+}
+
+function insertSorted(items: ScoredNode[], item: ScoredNode, compare: (a: ScoredNode, b: ScoredNode) => number): void {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (compare(items[middle], item) <= 0) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    items.splice(low, 0, item);
+}
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import * as readline from 'readline';
+import { Readable, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { VectorStore, IndexSnapshot } from './vectorStore';
+import { GitHubRepoManager, RepoInfo, getRepoKey } from './gitHubRepoManager';
+
+const ARCHIVE_FORMAT = 'rag-pilot-index';
+
+/** Bumped whenever the archive layout changes incompatibly. */
+const ARCHIVE_VERSION = 2;
+
+/** File extension used in the save and open dialogs. */
+export const ARCHIVE_EXTENSION = 'ragindex';
+
+/**
+ * The active index (items, file manifest and sources) together with the
+ * repos metadata, so a teammate can import the embeddings instead of
+ * computing them again.
+ */
+interface IndexArchive {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    index: IndexSnapshot;
+    repos: RepoInfo[];
+}
+
+/**
+ * First line of a gzipped archive. Since version 2 the items follow, one JSON
+ * line each, so no single string has to hold the whole index; version 1
+ * archives are one JSON document with the items inside `index`.
+ */
+interface ArchiveHeader extends Omit<IndexArchive, 'index'> {
+    index: Omit<IndexSnapshot, 'items'> & { items?: IndexSnapshot['items'] };
+    itemCount?: number;
+}
+
+export interface ArchiveSummary {
+    model: string;
+    files: number;
+    chunks: number;
+    repos: number;
+}
+
+export async function exportIndexArchive(
+    targetPath: string,
+    vectorStore: VectorStore,
+    repoManager: GitHubRepoManager
+): Promise<ArchiveSummary> {
+    const { items, ...index } = await vectorStore.exportSnapshot();
+    const header: ArchiveHeader = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        itemCount: items.length,
+        index,
+        // Clone paths are machine-specific and recomputed on import
+        repos: repoManager.getRepos().map(repo => ({ ...repo, path: '' }))
+    };
+
+    async function* lines(): AsyncGenerator<string> {
+        yield `${JSON.stringify(header)}\n`;
+        for (const item of items) {
+            yield `${JSON.stringify(item)}\n`;
+        }
+    }
+
+    try {
+        await pipelineAsync(Readable.from(lines()), zlib.createGzip(), fs.createWriteStream(targetPath));
+    } catch (error) {
+        // Don't leave a truncated archive behind
+        await fs.promises.rm(targetPath, { force: true });
+        throw error;
+    }
+
+    return {
+        model: index.model,
+        files: Object.keys(index.fileManifest).length,
+        chunks: items.length,
+        repos: header.repos.length
+    };
+}
+
+export async function importIndexArchive(
+    sourcePath: string,
+    vectorStore: VectorStore,
+    repoManager: GitHubRepoManager,
+    merge: boolean
+): Promise<ArchiveSummary> {
+    const archive = await readIndexArchive(sourcePath);
+    validateIndexArchive(archive, vectorStore.getModelName(), vectorStore.getDimensions());
+
+    const files = await vectorStore.importSnapshot(archive.index, merge);
+    const repos = await repoManager.importRepos(archive.repos);
+    await vectorStore.registerRepoSources(repos.map(getRepoKey));
+
+    return {
+        model: archive.index.model,
+        files,
+        chunks: archive.index.items.length,
+        repos: repos.length
+    };
+}
+
+async function readIndexArchive(sourcePath: string): Promise<IndexArchive> {
+    const input = pipeline(fs.createReadStream(sourcePath), zlib.createGunzip(), () => {});
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let header: ArchiveHeader | undefined;
+    const items: IndexSnapshot['items'] = [];
+    try {
+        for await (const line of lines) {
+            if (!header) {
+                header = JSON.parse(line);
+            } else if (line.trim()) {
+                items.push(JSON.parse(line));
+            }
+        }
+    } catch (error) {
+        throw new Error('The file is not a RAG Pilot index archive');
+    } finally {
+        lines.close();
+    }
+
+    if (!isObject(header) || header.format !== ARCHIVE_FORMAT) {
+        throw new Error('The file is not a RAG Pilot index archive');
+    }
+    if (typeof header.version !== 'number' || header.version > ARCHIVE_VERSION) {
+        throw new Error(`The archive uses format version ${header.version}; update RAG Pilot to import it`);
+    }
+    if (!isObject(header.index)) {
+        throw new Error('The archive is damaged: it has no index');
+    }
+
+    if (header.version >= 2) {
+        if (header.itemCount !== items.length) {
+            throw new Error(`The archive is damaged: it holds ${items.length} of ${header.itemCount} chunks`);
+        }
+        return { ...header, index: { ...header.index, items } };
+    }
+    return { ...header, index: { ...header.index, items: header.index.items! } };
+}
+
+/**
+ * Checks the whole archive before anything is imported, so a damaged or
+ * mismatched file cannot leave the index half replaced.
+ */
+function validateIndexArchive(archive: IndexArchive, modelName: string, dimensions: number): void {
+    const { index } = archive;
+    if (typeof index.model !== 'string' || typeof index.dimensions !== 'number' || typeof index.schemaVersion !== 'number') {
+        throw new Error('The archive is damaged: its model is missing');
+    }
+    if (index.model !== modelName || index.dimensions !== dimensions) {
+        throw new Error(
+            `The archive was built with ${index.model} (${index.dimensions} dimensions), ` +
+            `but the active index uses ${modelName}. Switch ragPilot.embeddingModel to ${index.model} and import again.`
+        );
+    }
+    if (!Array.isArray(index.items) || !isObject(index.fileManifest) || !Array.isArray(archive.repos)) {
+        throw new Error('The archive is damaged: its items, file manifest or repositories are missing');
+    }
+    if (index.sources !== undefined && !Array.isArray(index.sources)) {
+        throw new Error('The archive is damaged: its sources are not a list');
+    }
+
+    for (const [key, entry] of Object.entries(index.fileManifest)) {
+        if (!isObject(entry) || !Array.isArray(entry.itemIds) || !entry.itemIds.every(id => typeof id === 'string')) {
+            throw new Error(`The archive is damaged: the manifest entry of ${key} has no chunk ids`);
+        }
+    }
+
+    for (const item of index.items) {
+        if (!isObject(item) || typeof item.id !== 'string' || !isObject(item.metadata)) {
+            throw new Error('The archive is damaged: a chunk has no id or metadata');
+        }
+        if (!Array.isArray(item.vector) || item.vector.length !== dimensions ||
+            !item.vector.every(value => typeof value === 'number' && Number.isFinite(value))) {
+            throw new Error(`The archive is damaged: chunk ${item.id} does not have a ${dimensions}-dimensional vector`);
+        }
+    }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
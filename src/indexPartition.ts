@@ -0,0 +1,490 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { LexicalIndex } from './lexicalIndex';
+import { VectorIndex, VectorStorageOptions, createVectorIndex } from './vectorIndex';
+import { SourceRegistry } from './sourceRegistry';
+
+export interface DocumentMetadata {
+    file: string;
+    line?: number;
+    endLine?: number;
+    /** Page of an extracted PDF, cited instead of lines. */
+    page?: number;
+    /** Heading path of an extracted Word or HTML document, cited instead of lines. */
+    section?: string;
+    /** 0-based cell index of a notebook chunk, cited and opened instead of lines. */
+    cell?: number;
+    symbol?: string;
+    source?: 'workspace' | 'github';
+    repo?: string;
+    /** Branch, tag or short commit of the repository the chunk was indexed from. */
+    ref?: string;
+    /** Id of the source the chunk was indexed for. */
+    sourceId?: string;
+    text?: string;
+}
+
+/**
+ * Manifest entry for a single indexed file. The content hash lets re-indexing
+ * skip unchanged files, and the item ids let us replace or drop exactly the
+ * chunks that belong to the file.
+ */
+export interface IndexedFileEntry {
+    hash: string;
+    chunkerVersion?: number;
+    ref?: string;
+    /** Source the file belongs to; unset for files indexed before sources had ids. */
+    sourceId?: string;
+    itemIds: string[];
+    indexedAt: string;
+}
+
+/** A file that could not be read or embedded during the last attempt. */
+export interface FailedFileEntry {
+    error: string;
+    failedAt: string;
+}
+
+/**
+ * Describes which embedding model produced the vectors in a model index.
+ * Vectors from different models live in different spaces (and often have
+ * different dimensions), so an index may only be queried with its own model.
+ */
+export interface IndexManifest {
+    model: string;
+    dimensions: number;
+    schemaVersion: number;
+    createdAt: string;
+}
+
+/** Bump when the on-disk layout of a model index changes incompatibly. */
+export const INDEX_SCHEMA_VERSION = 1;
+
+export function getManifestKey(metadata: Pick<DocumentMetadata, 'file' | 'source' | 'repo'>): string {
+    return metadata.source === 'github'
+        ? `github:${escapeRepoKey(metadata.repo!)}:${metadata.file}`
+        : `workspace:${metadata.file}`;
+}
+
+/**
+ * Inverse of `getManifestKey`. The repo key is escaped in manifest keys, so
+ * the first colon after it always ends it, even for `local/C:/...` repos.
+ */
+export function parseManifestKey(key: string): Required<Pick<DocumentMetadata, 'file' | 'source'>> & Pick<DocumentMetadata, 'repo'> {
+    if (key.startsWith('github:')) {
+        const separator = key.indexOf(':', 'github:'.length);
+        return { source: 'github', repo: unescapeRepoKey(key.slice('github:'.length, separator)), file: key.slice(separator + 1) };
+    }
+    return { source: 'workspace', file: key.slice('workspace:'.length) };
+}
+
+/** Percent-encodes `%` and `:`; other repo keys are unchanged, as in older manifests. */
+function escapeRepoKey(repoKey: string): string {
+    return repoKey.replace(/%/g, '%25').replace(/:/g, '%3A');
+}
+
+function unescapeRepoKey(escaped: string): string {
+    return escaped.replace(/%3A/g, ':').replace(/%25/g, '%');
+}
+
+/** Content hash stored in the file manifest to detect changed files. */
+export function hashContent(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * One on-disk index under a storage root: the vector index, keyword index
+ * and file manifest of each embedding model live in their own namespace
+ * folder `indexes/<model>/`, next to the root's source registry. Callers
+ * must hold the vector store's update lock around `beginUpdate` / `endUpdate`.
+ */
+export class IndexPartition {
+    index: VectorIndex | null = null;
+    manifest: IndexManifest | null = null;
+    fileManifest: Map<string, IndexedFileEntry> = new Map();
+    readonly sources: SourceRegistry;
+    failedFiles: Map<string, FailedFileEntry> = new Map();
+    lexicalIndex!: LexicalIndex;
+    namespacePath = '';
+    indexedFoldersPath = '';
+    fileManifestPath = '';
+    private indexManifestPath = '';
+    private failedFilesPath = '';
+
+    constructor(readonly rootPath: string) {
+        this.sources = new SourceRegistry(path.join(rootPath, 'sources.json'));
+    }
+
+    get indexesPath(): string {
+        return path.join(this.rootPath, 'indexes');
+    }
+
+    /**
+     * Points all index files at the namespace folder of the given model.
+     */
+    useModelNamespace(modelName: string): void {
+        this.namespacePath = path.join(this.indexesPath, modelName.replace(/[^A-Za-z0-9._-]+/g, '_'));
+        this.indexManifestPath = path.join(this.namespacePath, 'index-manifest.json');
+        this.indexedFoldersPath = path.join(this.namespacePath, 'indexed-folders.json');
+        this.fileManifestPath = path.join(this.namespacePath, 'file-manifest.json');
+        this.failedFilesPath = path.join(this.namespacePath, 'failed-files.json');
+        this.lexicalIndex = new LexicalIndex(path.join(this.namespacePath, 'lexical-index.json'));
+    }
+
+    /**
+     * Opens (or creates) the namespace of the given model. Refuses to open an
+     * index whose manifest names a different model or dimension.
+     */
+    async open(modelName: string, dimensions: number, storage: VectorStorageOptions): Promise<void> {
+        this.useModelNamespace(modelName);
+        this.index = null;
+
+        let manifest: IndexManifest | null = null;
+        try {
+            manifest = JSON.parse(await fs.readFile(this.indexManifestPath, 'utf-8'));
+        } catch (error) {
+            // New namespace, the manifest is written below
+        }
+
+        if (manifest) {
+            if (manifest.schemaVersion > INDEX_SCHEMA_VERSION) {
+                throw new Error(`The index for ${modelName} was created by a newer version of RAG Pilot`);
+            }
+            if (manifest.model !== modelName || manifest.dimensions !== dimensions) {
+                throw new Error(
+                    `The index for ${modelName} was built with ${manifest.model} (${manifest.dimensions} dimensions). Clear the index and re-index your sources.`
+                );
+            }
+        } else {
+            manifest = {
+                model: modelName,
+                dimensions,
+                schemaVersion: INDEX_SCHEMA_VERSION,
+                createdAt: new Date().toISOString()
+            };
+            await fs.mkdir(this.namespacePath, { recursive: true });
+            await fs.writeFile(this.indexManifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+        }
+
+        // Initialize or load existing index
+        const index = createVectorIndex(this.namespacePath, storage);
+        if (await index.isIndexCreated()) {
+            await index.beginUpdate();
+            await index.endUpdate();
+        } else {
+            await index.createIndex();
+            await this.moveVectors(index, storage);
+        }
+        this.index = index;
+        this.manifest = manifest;
+
+        // Load the sources, the per-file manifest and the keyword index
+        await this.sources.load();
+        await this.loadFileManifest();
+        await this.migrateManifestKeys();
+        await this.loadLexicalIndex();
+        await this.loadFailedFiles();
+    }
+
+    close(): void {
+        this.index = null;
+    }
+
+    hasContent(): boolean {
+        return this.fileManifest.size > 0 || this.sources.size > 0;
+    }
+
+    async beginUpdate(): Promise<void> {
+        if (!this.index) {
+            throw new Error('Vector store not initialized');
+        }
+        await this.index.beginUpdate();
+    }
+
+    async endUpdate(): Promise<void> {
+        await this.index!.endUpdate();
+        await this.lexicalIndex.save();
+        await this.saveFailedFiles();
+    }
+
+    /**
+     * Drops the changes of an update that failed part way: the vector index,
+     * keyword index, sources and manifests are read back from disk.
+     */
+    async cancelUpdate(): Promise<void> {
+        this.index?.cancelUpdate();
+        await this.sources.load();
+        await this.loadFileManifest();
+        await this.migrateManifestKeys();
+        await this.loadLexicalIndex();
+        await this.loadFailedFiles();
+    }
+
+    /**
+     * Deletes an item from the vector index and the keyword index.
+     * Must be called inside an update.
+     */
+    async deleteItem(id: string): Promise<void> {
+        await this.index!.deleteItem(id);
+        this.lexicalIndex.removeDocument(id);
+    }
+
+    /**
+     * Deletes the chunks of one file and forgets it, including a failure.
+     * Must be called inside an update. Returns false if the file was not indexed.
+     */
+    async removeFile(key: string): Promise<boolean> {
+        this.failedFiles.delete(key);
+        const entry = this.fileManifest.get(key);
+        if (!entry) {
+            return false;
+        }
+        for (const id of entry.itemIds) {
+            await this.deleteItem(id);
+        }
+        this.fileManifest.delete(key);
+        return true;
+    }
+
+    /**
+     * Deletes the chunks of every file whose manifest key starts with the
+     * prefix and is not in `keep`, and forgets failures of those files.
+     * Must be called inside an update. Returns the number of files removed.
+     */
+    async purgeFiles(keyPrefix: string, keep: Set<string> = new Set()): Promise<number> {
+        let removed = 0;
+
+        for (const key of Array.from(this.failedFiles.keys())) {
+            if (key.startsWith(keyPrefix) && !keep.has(key)) {
+                this.failedFiles.delete(key);
+            }
+        }
+
+        for (const [key, entry] of Array.from(this.fileManifest.entries())) {
+            if (!key.startsWith(keyPrefix) || keep.has(key)) {
+                continue;
+            }
+
+            for (const id of entry.itemIds) {
+                await this.deleteItem(id);
+            }
+            this.fileManifest.delete(key);
+            removed++;
+        }
+
+        return removed;
+    }
+
+    /**
+     * Empties the active namespace and deletes the namespaces of other models.
+     */
+    async clear(): Promise<void> {
+        if (!this.index) {
+            return;
+        }
+
+        await this.index.deleteIndex();
+        await this.index.createIndex();
+
+        this.lexicalIndex.clear();
+        await this.lexicalIndex.save();
+
+        // Clear sources and file manifest tracking
+        this.sources.clear();
+        await this.sources.save();
+        this.fileManifest.clear();
+        await this.saveFileManifest();
+        this.failedFiles.clear();
+        await this.saveFailedFiles();
+
+        try {
+            const entries = await fs.readdir(this.indexesPath, { withFileTypes: true });
+            for (const entry of entries) {
+                const entryPath = path.join(this.indexesPath, entry.name);
+                if (entry.isDirectory() && entryPath !== this.namespacePath) {
+                    await fs.rm(entryPath, { recursive: true, force: true });
+                }
+            }
+        } catch (error) {
+            console.error('Failed to clear other model indexes:', error);
+        }
+    }
+
+    async saveFileManifest(): Promise<void> {
+        try {
+            await fs.mkdir(path.dirname(this.fileManifestPath), { recursive: true });
+            await fs.writeFile(
+                this.fileManifestPath,
+                JSON.stringify(Object.fromEntries(this.fileManifest), null, 2),
+                'utf-8'
+            );
+        } catch (error) {
+            console.error('Failed to save file manifest:', error);
+        }
+    }
+
+    async saveFailedFiles(): Promise<void> {
+        try {
+            await fs.mkdir(path.dirname(this.failedFilesPath), { recursive: true });
+            await fs.writeFile(
+                this.failedFilesPath,
+                JSON.stringify(Object.fromEntries(this.failedFiles), null, 2),
+                'utf-8'
+            );
+        } catch (error) {
+            console.error('Failed to save failed files:', error);
+        }
+    }
+
+    /**
+     * Total size in bytes of the active model's namespace folder.
+     */
+    async getDiskUsage(): Promise<number> {
+        return await getDirectorySize(this.namespacePath);
+    }
+
+    /**
+     * Copies the vectors of the namespace's other backend, if it has one,
+     * into a newly created index after `ragPilot.vectorStorage` changed.
+     * Item ids are kept, so the file manifest and keyword index stay valid.
+     */
+    private async moveVectors(index: VectorIndex, storage: VectorStorageOptions): Promise<void> {
+        const previous = createVectorIndex(this.namespacePath, {
+            ...storage,
+            storage: storage.storage === 'vectra' ? 'binary' : 'vectra'
+        });
+        if (!await previous.isIndexCreated()) {
+            return;
+        }
+
+        console.log(`Moving ${this.namespacePath} to ${storage.storage} vector storage`);
+        await index.beginUpdate();
+        try {
+            for (const item of await previous.listItems()) {
+                await index.insertItem({ id: item.id, vector: item.vector, metadata: item.metadata });
+            }
+            await index.endUpdate();
+        } catch (error) {
+            index.cancelUpdate();
+            await index.deleteIndex();
+            throw error;
+        }
+        await previous.deleteIndex();
+    }
+
+    /**
+     * Returns the folder list that versions before the source registry kept
+     * in the namespace, and deletes it. Empty if there is none.
+     */
+    async takeLegacyFolders(): Promise<string[]> {
+        let folders: string[] = [];
+        try {
+            folders = JSON.parse(await fs.readFile(this.indexedFoldersPath, 'utf-8'));
+            await fs.rm(this.indexedFoldersPath, { force: true });
+        } catch (error) {
+            // Already migrated, or never had indexed folders
+        }
+        return folders;
+    }
+
+    /**
+     * Re-keys the files of repositories whose key contains a colon, which
+     * manifests written before repo keys were escaped stored unescaped. The
+     * chunks' metadata has the real repo key and path.
+     */
+    private async migrateManifestKeys(): Promise<void> {
+        let migrated = 0;
+        for (const [key, entry] of Array.from(this.fileManifest.entries())) {
+            // An escaped key has one colon after the prefix, unless the path has one
+            if (!key.startsWith('github:') || key.indexOf(':', key.indexOf(':', 'github:'.length) + 1) === -1) {
+                continue;
+            }
+            const item = entry.itemIds.length > 0 ? await this.index?.getItem(entry.itemIds[0]) : undefined;
+            const metadata = item?.metadata as any as DocumentMetadata | undefined;
+            if (!metadata?.file || !metadata.repo) {
+                continue;
+            }
+            const migratedKey = getManifestKey(metadata);
+            if (migratedKey !== key) {
+                this.fileManifest.delete(key);
+                this.fileManifest.set(migratedKey, entry);
+                migrated++;
+            }
+        }
+        if (migrated > 0) {
+            console.log(`Migrated ${migrated} manifest keys in ${this.namespacePath}`);
+            await this.saveFileManifest();
+        }
+    }
+
+    private async loadFailedFiles(): Promise<void> {
+        try {
+            const data = await fs.readFile(this.failedFilesPath, 'utf-8');
+            const entries: Record<string, FailedFileEntry> = JSON.parse(data);
+            this.failedFiles = new Map(Object.entries(entries));
+        } catch (error) {
+            // No failures recorded yet
+            this.failedFiles = new Map();
+        }
+    }
+
+    private async loadLexicalIndex(): Promise<void> {
+        if (await this.lexicalIndex.load()) {
+            return;
+        }
+
+        // No keyword index yet: build it from the chunk text stored with existing items
+        if (this.index && await this.index.isIndexCreated()) {
+            const allItems = await this.index.listItems();
+            for (const item of allItems) {
+                const metadata = item.metadata as any as DocumentMetadata;
+                this.lexicalIndex.addDocument(item.id, `${metadata.file}\n${metadata.text || ''}`);
+            }
+            await this.lexicalIndex.save();
+        }
+    }
+
+    private async loadFileManifest(): Promise<void> {
+        try {
+            const data = await fs.readFile(this.fileManifestPath, 'utf-8');
+            const entries: Record<string, IndexedFileEntry> = JSON.parse(data);
+            this.fileManifest = new Map(Object.entries(entries));
+        } catch (error) {
+            // No manifest yet. Rebuild it from the items of an existing index so
+            // that re-indexing replaces those chunks instead of duplicating them.
+            this.fileManifest = new Map();
+            if (this.index && await this.index.isIndexCreated()) {
+                const allItems = await this.index.listItems();
+                for (const item of allItems) {
+                    const metadata = item.metadata as any as DocumentMetadata;
+                    if (!metadata.file) {
+                        continue;
+                    }
+                    const key = getManifestKey(metadata);
+                    const entry = this.fileManifest.get(key) || { hash: '', itemIds: [], indexedAt: '' };
+                    entry.itemIds.push(item.id);
+                    this.fileManifest.set(key, entry);
+                }
+            }
+        }
+    }
+}
+
+async function getDirectorySize(dir: string): Promise<number> {
+    let size = 0;
+    try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                size += await getDirectorySize(entryPath);
+            } else {
+                size += (await fs.stat(entryPath)).size;
+            }
+        }
+    } catch (error) {
+        // Missing folder, nothing stored yet
+    }
+    return size;
+}
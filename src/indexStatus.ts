@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { VectorStore, FailedFile, SourceStats } from './vectorStore';
+import { GitHubRepoManager, getRepoVersion } from './gitHubRepoManager';
+import { getSourceLabel } from './sourceRegistry';
+import { hashContent } from './indexPartition';
+import { CHUNKER_VERSION } from './chunker';
+import { resolveWorkspacePath } from './sourcesTreeProvider';
+
+/** Stale and failed files listed per section before the rest is summarized. */
+const MAX_LISTED_FILES = 200;
+
+export interface SourceStatus extends SourceStats {
+    label: string;
+    kind: 'workspace' | 'repo';
+    /** Pinned ref or short commit of a repository. */
+    version?: string;
+    /** Set when the checked-out commit has not been indexed yet. */
+    pendingCommit?: string;
+}
+
+export interface StaleFile {
+    source: string;
+    file: string;
+    reason: string;
+}
+
+export interface IndexStatus {
+    model: string;
+    dimensions: number;
+    workspaceIndexPath: string;
+    diskUsage: { workspace: number; repositories: number };
+    sources: SourceStatus[];
+    failed: FailedFile[];
+    stale: StaleFile[];
+    /** Indexed files compared against disk; fewer than all when cancelled. */
+    checkedFiles: number;
+    totalFiles: number;
+    totalChunks: number;
+}
+
+/**
+ * Gathers what is in the index and compares every indexed file with its
+ * copy on disk (the workspace, or the repository checkout) to find files
+ * that changed or disappeared since they were embedded.
+ */
+export async function collectIndexStatus(
+    vectorStore: VectorStore,
+    repoManager: GitHubRepoManager,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<IndexStatus> {
+    const sources: SourceStatus[] = vectorStore.getSources().map(source => {
+        const stats = vectorStore.getSourceStats(source);
+        if (source.kind !== 'repo') {
+            return { label: getSourceLabel(source), kind: 'workspace', ...stats };
+        }
+
+        const repo = repoManager.getRepo(source.root);
+        return {
+            label: source.root,
+            kind: 'repo',
+            version: repo && getRepoVersion(repo),
+            pendingCommit: repo?.commit && repo.indexedCommit && repo.commit !== repo.indexedCommit
+                ? repo.commit.slice(0, 7)
+                : undefined,
+            ...stats
+        };
+    });
+
+    const files = vectorStore.listIndexedFiles();
+    const stale: StaleFile[] = [];
+    let checkedFiles = 0;
+
+    for (const { source, repo, file, entry } of files) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+
+        const label = source === 'github' ? repo! : 'workspace';
+        let filePath: string | undefined;
+        if (source === 'github') {
+            const repoPath = repoManager.getRepoPath(repo!);
+            filePath = repoPath ? path.join(repoPath, file) : undefined;
+        } else {
+            filePath = resolveWorkspacePath(file)?.fsPath;
+        }
+
+        progress.report({ message: file, increment: 100 / files.length });
+        checkedFiles++;
+
+        if (!filePath) {
+            stale.push({ source: label, file, reason: source === 'github' ? 'repository is no longer tracked' : 'not in the open workspace' });
+            continue;
+        }
+
+        let text: string;
+        try {
+            // Editors drop the byte order mark, so the indexed text has none either
+            text = (await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '');
+        } catch (error) {
+            stale.push({ source: label, file, reason: 'missing on disk' });
+            continue;
+        }
+
+        if (!entry.hash) {
+            stale.push({ source: label, file, reason: 'indexed before content hashes were recorded' });
+        } else if (hashContent(text) !== entry.hash) {
+            stale.push({ source: label, file, reason: 'changed on disk' });
+        } else if (entry.chunkerVersion !== CHUNKER_VERSION) {
+            stale.push({ source: label, file, reason: 'chunked by an older version' });
+        }
+    }
+
+    return {
+        model: vectorStore.getModelName(),
+        dimensions: vectorStore.getDimensions(),
+        workspaceIndexPath: vectorStore.getWorkspaceIndexRoot(),
+        diskUsage: await vectorStore.getDiskUsage(),
+        sources,
+        failed: vectorStore.listFailedFiles(),
+        stale,
+        checkedFiles,
+        totalFiles: files.length,
+        totalChunks: files.reduce((sum, { entry }) => sum + entry.itemIds.length, 0)
+    };
+}
+
+/**
+ * Renders the status as a Markdown report.
+ */
+export function formatIndexStatus(status: IndexStatus): string {
+    const lines: string[] = [
+        '# RAG Pilot Index Status',
+        '',
+        `Generated ${new Date().toLocaleString()}`,
+        '',
+        '## Index',
+        '',
+        `- **Embedding model:** ${status.model} (${status.dimensions} dimensions)`,
+        `- **Workspace index:** ${formatBytes(status.diskUsage.workspace)} in \`${status.workspaceIndexPath}\``,
+        `- **Repository index:** ${formatBytes(status.diskUsage.repositories)} (shared by all workspaces)`,
+        `- **Files:** ${status.totalFiles}, **chunks:** ${status.totalChunks}`,
+        '',
+        '## Sources',
+        ''
+    ];
+
+    if (status.sources.length === 0) {
+        lines.push('Nothing has been indexed yet.', '');
+    } else {
+        lines.push('| Source | Type | Files | Chunks | Last indexed | Version |', '|---|---|---|---|---|---|');
+        for (const source of status.sources) {
+            const version = [
+                source.version,
+                source.pendingCommit ? `checkout at ${source.pendingCommit} not indexed yet` : undefined
+            ].filter(Boolean).join(', ');
+            lines.push(
+                `| ${escapeCell(source.label)} | ${source.kind === 'repo' ? 'Repository' : 'Workspace'} | ${source.files} | ${source.chunks} | ` +
+                `${source.lastIndexedAt ? source.lastIndexedAt.toLocaleString() : 'never'} | ${escapeCell(version || '-')} |`
+            );
+        }
+        lines.push('');
+    }
+
+    lines.push(`## Failed Files (${status.failed.length})`, '');
+    if (status.failed.length === 0) {
+        lines.push('No files failed to index.', '');
+    } else {
+        lines.push('| Source | File | Error | When |', '|---|---|---|---|');
+        for (const failure of status.failed.slice(0, MAX_LISTED_FILES)) {
+            lines.push(
+                `| ${escapeCell(failure.source === 'github' ? failure.repo! : 'workspace')} | ${escapeCell(failure.file)} | ` +
+                `${escapeCell(failure.error)} | ${failure.failedAt.toLocaleString()} |`
+            );
+        }
+        appendOmitted(lines, status.failed.length);
+    }
+
+    const partial = status.checkedFiles < status.totalFiles
+        ? ` — checked ${status.checkedFiles} of ${status.totalFiles} files before cancelling`
+        : '';
+    lines.push(`## Stale or Missing Files (${status.stale.length}${partial})`, '');
+    if (status.stale.length === 0) {
+        lines.push('All checked files match their indexed content.', '');
+    } else {
+        lines.push('| Source | File | Reason |', '|---|---|---|');
+        for (const file of status.stale.slice(0, MAX_LISTED_FILES)) {
+            lines.push(`| ${escapeCell(file.source)} | ${escapeCell(file.file)} | ${file.reason} |`);
+        }
+        appendOmitted(lines, status.stale.length);
+        lines.push('Re-index the affected sources, or enable `ragPilot.autoReindex` to keep workspace folders in sync.', '');
+    }
+
+    return lines.join('\n');
+}
+
+function appendOmitted(lines: string[], total: number): void {
+    lines.push('');
+    if (total > MAX_LISTED_FILES) {
+        lines.push(`…and ${total - MAX_LISTED_FILES} more.`, '');
+    }
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { VectorStore } from './vectorStore';
+
+/**
+ * Keeps indexed workspace folders in sync with the file system.
+ * File events are collected per file and flushed to the vector store after
+ * a debounce, so a burst of saves or a branch switch re-embeds each file once.
+ */
+export class IndexWatcher implements vscode.Disposable {
+    private watchers: vscode.Disposable[] = [];
+    private pendingChanges: Map<string, vscode.Uri> = new Map();
+    private pendingDeletes: Map<string, vscode.Uri> = new Map();
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private inProgress = 0;
+    private flushing = false;
+    private readonly statusBarItem: vscode.StatusBarItem;
+
+    constructor(private vectorStore: VectorStore) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.statusBarItem.command = 'copilot-rag.listIndexedRepos';
+    }
+
+    get isRunning(): boolean {
+        return this.watchers.length > 0;
+    }
+
+    start(): void {
+        if (this.isRunning) {
+            return;
+        }
+
+        // Sources have their own include patterns, so changes are filtered per file
+        const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, false, true);
+        fileWatcher.onDidCreate(uri => this.queueChange(uri));
+        fileWatcher.onDidChange(uri => this.queueChange(uri));
+
+        // Deletions are watched for every path so that removed folders purge their files
+        const deleteWatcher = vscode.workspace.createFileSystemWatcher('**/*', true, true, false);
+        deleteWatcher.onDidDelete(uri => this.queueDelete(uri));
+
+        this.watchers.push(
+            fileWatcher,
+            deleteWatcher,
+            vscode.workspace.onDidSaveTextDocument(document => this.queueChange(document.uri))
+        );
+
+        console.log('Automatic re-indexing started');
+        this.updateStatusBar();
+    }
+
+    stop(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+        this.pendingChanges.clear();
+        this.pendingDeletes.clear();
+
+        console.log('Automatic re-indexing stopped');
+        this.updateStatusBar();
+    }
+
+    dispose(): void {
+        this.stop();
+        this.statusBarItem.dispose();
+    }
+
+    private async queueChange(uri: vscode.Uri): Promise<void> {
+        if (uri.scheme !== 'file' || !this.isInScope(uri)) {
+            return;
+        }
+        // Called straight from watcher events, so a failure must not escape as an unhandled rejection
+        try {
+            if (!await this.vectorStore.acceptsWorkspaceFile(uri)) {
+                return;
+            }
+        } catch (error) {
+            console.error(`Failed to check ${uri.fsPath} for re-indexing:`, error);
+            return;
+        }
+        // Stopped while the ignore files were read
+        if (!this.isRunning) {
+            return;
+        }
+
+        this.pendingDeletes.delete(uri.toString());
+        this.pendingChanges.set(uri.toString(), uri);
+        this.scheduleFlush();
+    }
+
+    private queueDelete(uri: vscode.Uri): void {
+        if (uri.scheme !== 'file' || !this.isInScope(uri)) {
+            return;
+        }
+
+        this.pendingChanges.delete(uri.toString());
+        this.pendingDeletes.set(uri.toString(), uri);
+        this.scheduleFlush();
+    }
+
+    private isInScope(uri: vscode.Uri): boolean {
+        return this.vectorStore.isIndexedWorkspacePath(vscode.workspace.asRelativePath(uri));
+    }
+
+    private scheduleFlush(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+
+        const delay = vscode.workspace.getConfiguration('ragPilot').get<number>('autoReindexDelay') ?? 2000;
+        this.debounceTimer = setTimeout(() => this.flush(), delay);
+        this.updateStatusBar();
+    }
+
+    private async flush(): Promise<void> {
+        this.debounceTimer = undefined;
+
+        // A running flush picks up anything queued meanwhile when it finishes
+        if (this.flushing) {
+            return;
+        }
+
+        const changed = Array.from(this.pendingChanges.values());
+        const deleted = Array.from(this.pendingDeletes.values());
+        this.pendingChanges.clear();
+        this.pendingDeletes.clear();
+
+        if (changed.length === 0 && deleted.length === 0) {
+            this.updateStatusBar();
+            return;
+        }
+
+        this.flushing = true;
+        this.inProgress = changed.length + deleted.length;
+        this.updateStatusBar();
+
+        try {
+            const summary = await this.vectorStore.updateWorkspaceFiles(changed, deleted);
+            console.log(`Background re-index: ${summary.indexed} indexed, ${summary.unchanged} unchanged, ${summary.removed} removed, ${summary.skipped.length} skipped`);
+        } catch (error) {
+            console.error('Background re-indexing failed:', error);
+        } finally {
+            this.flushing = false;
+            this.inProgress = 0;
+
+            if (this.isRunning && (this.pendingChanges.size > 0 || this.pendingDeletes.size > 0)) {
+                this.scheduleFlush();
+            } else {
+                this.updateStatusBar();
+            }
+        }
+    }
+
+    private updateStatusBar(): void {
+        if (!this.isRunning) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const pending = this.pendingChanges.size + this.pendingDeletes.size;
+
+        if (this.inProgress > 0) {
+            this.statusBarItem.text = `$(sync~spin) RAG: updating ${this.inProgress}`;
+            this.statusBarItem.tooltip = `RAG Pilot: re-indexing ${this.inProgress} file(s)` +
+                (pending > 0 ? `, ${pending} more pending` : '');
+        } else if (pending > 0) {
+            this.statusBarItem.text = `$(clock) RAG: ${pending} pending`;
+            this.statusBarItem.tooltip = `RAG Pilot: ${pending} file change(s) waiting to be re-indexed`;
+        } else {
+            this.statusBarItem.text = '$(database) RAG';
+            this.statusBarItem.tooltip = 'RAG Pilot: index is up to date';
+        }
+
+        this.statusBarItem.show();
+    }
+}
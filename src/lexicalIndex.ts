@@ -0,0 +1,173 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Persistent BM25 keyword index over the same items as the vector index.
+ * Only per-document term frequencies are stored on disk; postings lists are
+ * rebuilt in memory on load.
+ */
+export class LexicalIndex {
+    private documents: Map<string, Record<string, number>> = new Map();
+    private documentLengths: Map<string, number> = new Map();
+    private postings: Map<string, Set<string>> = new Map();
+    private totalLength = 0;
+    private dirty = false;
+
+    constructor(private readonly indexPath: string) {}
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    async load(): Promise<boolean> {
+        try {
+            const data = await fs.readFile(this.indexPath, 'utf-8');
+            const documents: Record<string, Record<string, number>> = JSON.parse(data);
+            this.clear();
+            for (const [id, terms] of Object.entries(documents)) {
+                this.addTerms(id, terms);
+            }
+            this.dirty = false;
+            return true;
+        } catch (error) {
+            // File doesn't exist or is invalid, start fresh
+            this.clear();
+            return false;
+        }
+    }
+
+    async save(): Promise<void> {
+        if (!this.dirty) {
+            return;
+        }
+
+        try {
+            await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+            await fs.writeFile(
+                this.indexPath,
+                JSON.stringify(Object.fromEntries(this.documents)),
+                'utf-8'
+            );
+            this.dirty = false;
+        } catch (error) {
+            console.error('Failed to save lexical index:', error);
+        }
+    }
+
+    addDocument(id: string, text: string): void {
+        this.removeDocument(id);
+
+        const terms: Record<string, number> = {};
+        for (const term of tokenize(text)) {
+            terms[term] = (terms[term] || 0) + 1;
+        }
+        this.addTerms(id, terms);
+    }
+
+    removeDocument(id: string): void {
+        const terms = this.documents.get(id);
+        if (!terms) {
+            return;
+        }
+
+        for (const term of Object.keys(terms)) {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids && ids.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.totalLength -= this.documentLengths.get(id) || 0;
+        this.documents.delete(id);
+        this.documentLengths.delete(id);
+        this.dirty = true;
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.documentLengths.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+        this.dirty = true;
+    }
+
+    search(query: string, topK: number): Array<{ id: string; score: number }> {
+        const queryTerms = Array.from(new Set(tokenize(query)));
+        const documentCount = this.documents.size;
+        if (queryTerms.length === 0 || documentCount === 0) {
+            return [];
+        }
+
+        const averageLength = this.totalLength / documentCount;
+        const scores = new Map<string, number>();
+
+        for (const term of queryTerms) {
+            const ids = this.postings.get(term);
+            if (!ids) {
+                continue;
+            }
+
+            const idf = Math.log(1 + (documentCount - ids.size + 0.5) / (ids.size + 0.5));
+            for (const id of ids) {
+                const tf = this.documents.get(id)![term];
+                const length = this.documentLengths.get(id)!;
+                const termScore = idf * (tf * (BM25_K1 + 1)) /
+                    (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+                scores.set(id, (scores.get(id) || 0) + termScore);
+            }
+        }
+
+        return Array.from(scores.entries())
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    private addTerms(id: string, terms: Record<string, number>): void {
+        let length = 0;
+        for (const [term, tf] of Object.entries(terms)) {
+            let ids = this.postings.get(term);
+            if (!ids) {
+                ids = new Set();
+                this.postings.set(term, ids);
+            }
+            ids.add(id);
+            length += tf;
+        }
+
+        this.documents.set(id, terms);
+        this.documentLengths.set(id, length);
+        this.totalLength += length;
+        this.dirty = true;
+    }
+}
+
+/**
+ * Splits text into lowercase identifier tokens. Compound identifiers are kept
+ * whole and also split into their camelCase / snake_case parts, so that
+ * `parseGitHubUrl` matches both the exact name and a query for "parse url".
+ */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const words = text.match(/[A-Za-z0-9_$]+/g) || [];
+
+    for (const word of words) {
+        tokens.push(word.toLowerCase());
+
+        const parts = word
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .split(/[\s_$]+/)
+            .filter(part => part.length > 1);
+
+        if (parts.length > 1) {
+            tokens.push(...parts.map(part => part.toLowerCase()));
+        }
+    }
+
+    return tokens;
+}
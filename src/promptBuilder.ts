@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import { SearchResult } from './vectorStore';
+import { describeSectionAnchor } from './citations';
+
+/**
+ * Share of the input window kept free for tool definitions and the tool
+ * results that are appended to the conversation while answering.
+ */
+const TOOL_HEADROOM = 0.1;
+
+/** Minimum budget worth spending on a truncated reference file. */
+const MIN_TRUNCATED_REFERENCE_TOKENS = 200;
+
+/**
+ * How the tokens left after the instructions are split between sections.
+ * Budget a section does not use is handed to the others in priority order.
+ */
+const SECTION_SHARES = {
+    references: 0.35,
+    retrieved: 0.45,
+    history: 0.2
+};
+
+export interface HistoryTurn {
+    role: 'user' | 'assistant';
+    text: string;
+}
+
+export interface ReferencedFile {
+    uri: vscode.Uri;
+    content: string;
+}
+
+export interface PromptInput {
+    /** Instructions placed before the context sections; always included. */
+    preamble: string;
+    /** Question and closing instructions placed after the context; always included. */
+    postamble: string;
+    /** Conversation turns, oldest first. */
+    history: HistoryTurn[];
+    /** Files the user referenced explicitly. */
+    references: ReferencedFile[];
+    /** Retrieved chunks, best first. */
+    retrieved: SearchResult[];
+}
+
+export interface BuiltPrompt {
+    prompt: string;
+    references: ReferencedFile[];
+    retrieved: SearchResult[];
+    usage: { instructions: number; history: number; references: number; retrieved: number; budget: number };
+}
+
+interface Candidate<T> {
+    value: T;
+    text: string;
+    tokens: number;
+}
+
+/**
+ * Assembles the RAG prompt within the selected model's input window.
+ * Each section gets its own token budget; ranked chunks are added while they
+ * fit, and the lowest-priority content (oldest history first) is dropped
+ * before anything the user referenced explicitly.
+ */
+export class PromptBuilder {
+    constructor(
+        private model: vscode.LanguageModelChat,
+        private token: vscode.CancellationToken
+    ) {}
+
+    async build(input: PromptInput): Promise<BuiltPrompt> {
+        const budget = Math.floor(this.model.maxInputTokens * (1 - TOOL_HEADROOM));
+        const instructionTokens = await this.count(input.preamble) + await this.count(input.postamble);
+        let available = Math.max(0, budget - instructionTokens);
+
+        // Candidates in priority order within each section
+        const references = await this.candidates(input.references, file => this.formatReference(file));
+        const retrieved = await this.candidates(input.retrieved, doc => this.formatRetrieved(doc));
+        const history = await this.candidates([...input.history].reverse(), turn => this.formatTurn(turn));
+
+        // First pass: every section fills its own share
+        const shares = {
+            references: Math.floor(available * SECTION_SHARES.references),
+            retrieved: Math.floor(available * SECTION_SHARES.retrieved),
+            history: Math.floor(available * SECTION_SHARES.history)
+        };
+        const selectedReferences = this.fill(references, shares.references, false);
+        const selectedRetrieved = this.fill(retrieved, shares.retrieved, false);
+        // History stays contiguous: stop at the first turn that does not fit
+        const selectedHistory = this.fill(history, shares.history, true);
+
+        // Second pass: hand unused budget to the sections in priority order
+        available -= this.total(selectedReferences) + this.total(selectedRetrieved) + this.total(selectedHistory);
+        available -= this.extend(selectedReferences, references, available, false);
+        available -= await this.truncateReference(selectedReferences, references, available);
+        available -= this.extend(selectedRetrieved, retrieved, available, false);
+        this.extend(selectedHistory, history, available, true);
+
+        // Keep the original order of each section
+        const referenceParts = references.filter(c => selectedReferences.has(c));
+        const retrievedParts = retrieved.filter(c => selectedRetrieved.has(c));
+        const historyParts = history.filter(c => selectedHistory.has(c)).reverse();
+
+        let prompt = input.preamble;
+        if (historyParts.length > 0) {
+            prompt += '# Previous Conversation\n';
+            prompt += 'Here is the recent conversation history for context:\n\n';
+            prompt += historyParts.map(c => c.text).join('') + '\n';
+        }
+        if (referenceParts.length > 0) {
+            prompt += '# User-Provided Files\n\n';
+            prompt += referenceParts.map(c => c.text).join('');
+        }
+        if (retrievedParts.length > 0) {
+            prompt += '# Retrieved Context from Vector Search\n\n';
+            prompt += retrievedParts.map(c => c.text).join('');
+        }
+        prompt += input.postamble;
+
+        return {
+            prompt,
+            references: referenceParts.map(c => c.value),
+            retrieved: retrievedParts.map(c => c.value),
+            usage: {
+                instructions: instructionTokens,
+                history: this.total(selectedHistory),
+                references: this.total(selectedReferences),
+                retrieved: this.total(selectedRetrieved),
+                budget
+            }
+        };
+    }
+
+    private async count(text: string): Promise<number> {
+        return text.length === 0 ? 0 : await this.model.countTokens(text, this.token);
+    }
+
+    private async candidates<T>(values: T[], format: (value: T) => string): Promise<Candidate<T>[]> {
+        const result: Candidate<T>[] = [];
+        for (const value of values) {
+            const text = format(value);
+            result.push({ value, text, tokens: await this.count(text) });
+        }
+        return result;
+    }
+
+    private fill<T>(candidates: Candidate<T>[], budget: number, contiguous: boolean): Set<Candidate<T>> {
+        const selected = new Set<Candidate<T>>();
+        this.extend(selected, candidates, budget, contiguous);
+        return selected;
+    }
+
+    /**
+     * Adds unselected candidates in order while they fit. Returns the tokens used.
+     */
+    private extend<T>(selected: Set<Candidate<T>>, candidates: Candidate<T>[], budget: number, contiguous: boolean): number {
+        let used = 0;
+        for (const candidate of candidates) {
+            if (selected.has(candidate)) {
+                continue;
+            }
+            if (used + candidate.tokens > budget) {
+                if (contiguous) {
+                    break;
+                }
+                continue;
+            }
+            selected.add(candidate);
+            used += candidate.tokens;
+        }
+        return used;
+    }
+
+    /**
+     * Adds the head of the first referenced file that did not fit as a whole,
+     * so an oversized attachment is shortened rather than dropped.
+     */
+    private async truncateReference(
+        selected: Set<Candidate<ReferencedFile>>,
+        candidates: Candidate<ReferencedFile>[],
+        budget: number
+    ): Promise<number> {
+        const remaining = candidates.find(c => !selected.has(c));
+        if (!remaining || budget < MIN_TRUNCATED_REFERENCE_TOKENS) {
+            return 0;
+        }
+
+        // Estimate the cut from the token density, then shrink until it fits
+        let length = Math.floor(remaining.value.content.length * budget / remaining.tokens);
+        while (length > 0) {
+            const file = { uri: remaining.value.uri, content: remaining.value.content.slice(0, length) };
+            const text = this.formatReference(file, true);
+            const tokens = await this.count(text);
+            if (tokens <= budget) {
+                remaining.text = text;
+                remaining.tokens = tokens;
+                selected.add(remaining);
+                return tokens;
+            }
+            length = Math.floor(length * 0.9);
+        }
+        return 0;
+    }
+
+    private total<T>(selected: Set<Candidate<T>>): number {
+        return Array.from(selected).reduce((sum, c) => sum + c.tokens, 0);
+    }
+
+    private formatTurn(turn: HistoryTurn): string {
+        return `**${turn.role === 'user' ? 'User' : 'Assistant'}**: ${turn.text}\n\n`;
+    }
+
+    private formatReference(file: ReferencedFile, truncated = false): string {
+        const fileName = file.uri.fsPath.split('/').pop() || file.uri.fsPath;
+        return `## ${fileName}${truncated ? ' (truncated)' : ''}\n` +
+            '```\n' +
+            file.content +
+            (truncated ? '\n...' : '') +
+            '\n```\n\n';
+    }
+
+    private formatRetrieved(doc: SearchResult): string {
+        const source = doc.metadata.source === 'github'
+            ? `[${doc.metadata.repo}${doc.metadata.ref ? `@${doc.metadata.ref}` : ''}] ${doc.metadata.file}`
+            : doc.metadata.file;
+        const anchor = describeSectionAnchor(doc.metadata);
+        const lines = anchor
+            ? `, ${anchor}`
+            : doc.metadata.endLine ? ` (lines ${doc.metadata.line}-${doc.metadata.endLine})` : '';
+        const symbol = doc.metadata.symbol ? ` — ${doc.metadata.symbol}` : '';
+        return `## ${source}${lines}${symbol}\n` +
+            '```\n' +
+            doc.text +
+            '\n```\n\n';
+    }
+}
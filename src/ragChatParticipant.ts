@@ -1,8 +1,36 @@
 import * as vscode from 'vscode';
-import { VectorStore } from './vectorStore';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { VectorStore, SearchFilter, IndexingSummary, formatIndexingSummary } from './vectorStore';
+import { DocumentMetadata } from './indexPartition';
+import { Reranker } from './reranker';
+import { PromptBuilder, HistoryTurn } from './promptBuilder';
+import { GitHubRepoManager, getRepoVersion } from './gitHubRepoManager';
+import { Source, getSourceLabel } from './sourceRegistry';
+import { parseSearchScope, describeSearchScope } from './searchScope';
+import { formatCitation } from './citations';
+
+/**
+ * Upper bound on ranked chunks offered to the prompt builder, which keeps as
+ * many of them as fit in the retrieved-context budget.
+ */
+const MAX_RETRIEVED_CHUNKS = 20;
+
+/** Number of hits listed by /search. */
+const SEARCH_RESULT_COUNT = 10;
+
+/**
+ * Slash commands handled by the participant itself. Any other command is
+ * looked up as a custom prompt in .github/prompts/.
+ */
+const BUILT_IN_COMMANDS = ['search', 'sources', 'index', 'explain'];
 
 export class RagChatParticipant {
-    constructor(private vectorStore: VectorStore) {}
+    constructor(
+        private vectorStore: VectorStore,
+        private reranker: Reranker,
+        private repoManager: GitHubRepoManager
+    ) {}
 
     async handleRequest(
         request: vscode.ChatRequest,
@@ -15,6 +43,24 @@ export class RagChatParticipant {
         console.log('Request command:', request.command);
         
         try {
+            // Built-in commands, either recognised by VS Code or typed in sticky mode
+            let builtInCommand = request.command && BUILT_IN_COMMANDS.includes(request.command) ? request.command : undefined;
+            let query = request.prompt;
+            if (!request.command) {
+                const match = request.prompt.trim().match(/^\/([a-zA-Z]+)\b\s*/);
+                if (match && BUILT_IN_COMMANDS.includes(match[1])) {
+                    builtInCommand = match[1];
+                    query = request.prompt.trim().slice(match[0].length);
+                }
+            }
+
+            if (builtInCommand === 'sources') {
+                return this.handleSourcesCommand(stream);
+            }
+            if (builtInCommand === 'index') {
+                return await this.handleIndexCommand(query, stream);
+            }
+
             // Check if index exists
             const hasIndex = await this.vectorStore.hasIndex();
             if (!hasIndex) {
@@ -22,18 +68,50 @@ export class RagChatParticipant {
                 return { metadata: { command: '' } };
             }
 
-            // Retrieve relevant context using vector search (top 3 most relevant)
+            // Inline #repo:, #folder: and #workspace tokens narrow the search
+            const scope = parseSearchScope(query);
+            query = scope.query;
+            const filter = scope.filter;
+            if (filter) {
+                stream.markdown(`🔎 Scope: ${describeSearchScope(filter)}\n\n`);
+            }
+
+            if (builtInCommand === 'search') {
+                return await this.handleSearchCommand(query, stream, filter);
+            }
+
+            // /explain answers from retrieved context only: no tools, files or custom prompts
+            const explainOnly = builtInCommand === 'explain';
+
+            // Retrieve ranked context; the prompt builder keeps as many chunks as fit
             stream.progress('Searching for relevant context...');
-            const relevantDocs = await this.vectorStore.search(request.prompt, 3);
+            let relevantDocs = await this.vectorStore.search(
+                query,
+                this.reranker.isEnabled() ? Math.max(this.reranker.getCandidateCount(), MAX_RETRIEVED_CHUNKS) : MAX_RETRIEVED_CHUNKS,
+                filter
+            );
+
+            // Optionally re-score a wider candidate set with the cross-encoder
+            if (this.reranker.isEnabled() && relevantDocs.length > 0) {
+                stream.progress(`Reranking ${relevantDocs.length} candidates...`);
+                try {
+                    relevantDocs = await this.reranker.rerank(query, relevantDocs, MAX_RETRIEVED_CHUNKS);
+                } catch (error) {
+                    console.error('Reranking failed, using search order:', error);
+                    relevantDocs = relevantDocs.slice(0, MAX_RETRIEVED_CHUNKS);
+                }
+            }
 
             console.log(`Vector search found ${relevantDocs.length} documents`);
             if (relevantDocs.length > 0) {
-                console.log('Top 3 scores:', relevantDocs.map(d => `${d.score.toFixed(3)} - ${d.metadata.file?.split('/').pop()}`));
+                console.log('Top scores:', relevantDocs.map(d => `${d.score.toFixed(3)} - ${d.metadata.file?.split('/').pop()}`));
                 console.log('Top result source:', relevantDocs[0].metadata.source, relevantDocs[0].metadata.repo || relevantDocs[0].metadata.file);
             }
 
             if (relevantDocs.length === 0) {
-                stream.markdown('No relevant context found in the indexed workspace.\n\n');
+                stream.markdown(filter
+                    ? 'No relevant context found in the selected scope.\n\n'
+                    : 'No relevant context found in the indexed workspace.\n\n');
             }
 
             // Collect user-provided file references
@@ -41,7 +119,7 @@ export class RagChatParticipant {
             
             // Debug: log what references we're getting
             console.log('Request references:', request.references.length);
-            for (const ref of request.references) {
+            for (const ref of explainOnly ? [] : request.references) {
                 console.log('Reference:', ref.id, typeof ref.value, ref.value);
                 
                 // Handle file references - try multiple formats
@@ -72,7 +150,7 @@ export class RagChatParticipant {
 
             // Also try to extract filename from prompt if mentioned
             const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (workspaceFolders && userProvidedFiles.length === 0) {
+            if (workspaceFolders && userProvidedFiles.length === 0 && !explainOnly) {
                 const fileNameMatch = request.prompt.match(/(?:review|analyze|check|look at|see)\s+([a-zA-Z0-9_\-\.\/]+\.[a-zA-Z]+)/i);
                 if (fileNameMatch) {
                     const fileName = fileNameMatch[1];
@@ -92,13 +170,15 @@ export class RagChatParticipant {
             }
 
             // Build augmented prompt with retrieved context
-            let augmentedPrompt = 'You are a helpful coding assistant with access to MCP tools and workspace context.\n\n';
+            let augmentedPrompt = explainOnly
+                ? 'You are a helpful coding assistant. Answer strictly from the retrieved context provided below.\n\n'
+                : 'You are a helpful coding assistant with access to MCP tools and workspace context.\n\n';
             
             // Check if a slash command was used (either current or from history)
-            let activeCommand = request.command;
+            let activeCommand = explainOnly ? undefined : request.command;
             
             // If no command from VS Code, check if prompt starts with /
-            if (!activeCommand && request.prompt.trim().startsWith('/')) {
+            if (!activeCommand && !explainOnly && request.prompt.trim().startsWith('/')) {
                 const match = request.prompt.trim().match(/^\/([a-zA-Z0-9\-_]+)/);
                 if (match) {
                     activeCommand = match[1];
@@ -107,19 +187,20 @@ export class RagChatParticipant {
             }
             
             // If still no command in current request, check history for most recent command
-            if (!activeCommand && context.history.length > 0) {
+            // (built-in commands apply to a single turn and are never sticky)
+            if (!activeCommand && !explainOnly && context.history.length > 0) {
                 for (let i = context.history.length - 1; i >= 0; i--) {
                     const message = context.history[i];
                     if (message instanceof vscode.ChatRequestTurn) {
                         // Check for command in the turn
-                        if (message.command) {
+                        if (message.command && !BUILT_IN_COMMANDS.includes(message.command)) {
                             activeCommand = message.command;
                             console.log('Found active command from history:', activeCommand);
                             break;
                         }
                         // Also check if the prompt started with /
                         const historyMatch = message.prompt.trim().match(/^\/([a-zA-Z0-9\-_]+)/);
-                        if (historyMatch) {
+                        if (historyMatch && !BUILT_IN_COMMANDS.includes(historyMatch[1])) {
                             activeCommand = historyMatch[1];
                             console.log('Found active slash command from history prompt:', activeCommand);
                             break;
@@ -160,7 +241,7 @@ export class RagChatParticipant {
             }
             
             // Add instruction about available tools
-            if (vscode.lm.tools.length > 0) {
+            if (vscode.lm.tools.length > 0 && !explainOnly) {
                 augmentedPrompt += '# Available Tools\n';
                 augmentedPrompt += 'You have access to the following MCP tools that you SHOULD use when appropriate:\n';
                 for (const tool of vscode.lm.tools) {
@@ -169,96 +250,73 @@ export class RagChatParticipant {
                 augmentedPrompt += '\nWhen the user asks you to run commands or interact with systems, USE THESE TOOLS instead of just describing them.\n\n';
             }
             
-            // Add conversation history for context continuity
+            // Collect conversation history for context continuity
             console.log('Chat context history length:', context.history.length);
-            if (context.history.length > 0) {
-                augmentedPrompt += '# Previous Conversation\n';
-                augmentedPrompt += 'Here is the recent conversation history for context:\n\n';
-                // Include last few messages for context (limit to avoid token overflow)
-                const recentHistory = context.history.slice(-6);
-                for (const message of recentHistory) {
-                    console.log('Message type:', message.constructor.name);
-                    if (message instanceof vscode.ChatRequestTurn) {
-                        const cmdPrefix = message.command ? `/${message.command} ` : '';
-                        augmentedPrompt += `**User**: ${cmdPrefix}${message.prompt}\n\n`;
-                        console.log('User message:', cmdPrefix + message.prompt);
-                    } else if (message instanceof vscode.ChatResponseTurn) {
-                        // Extract text from response
-                        let responseText = '';
-                        for (const part of message.response) {
-                            if (part instanceof vscode.ChatResponseMarkdownPart) {
-                                responseText += part.value.value;
-                            }
-                        }
-                        if (responseText) {
-                            const truncated = responseText.length > 500 ? responseText.substring(0, 500) + '...' : responseText;
-                            augmentedPrompt += `**Assistant**: ${truncated}\n\n`;
-                            console.log('Assistant response length:', responseText.length);
+            const history: HistoryTurn[] = [];
+            for (const message of context.history) {
+                if (message instanceof vscode.ChatRequestTurn) {
+                    const cmdPrefix = message.command ? `/${message.command} ` : '';
+                    history.push({ role: 'user', text: `${cmdPrefix}${message.prompt}` });
+                } else if (message instanceof vscode.ChatResponseTurn) {
+                    // Extract text from response
+                    let responseText = '';
+                    for (const part of message.response) {
+                        if (part instanceof vscode.ChatResponseMarkdownPart) {
+                            responseText += part.value.value;
                         }
                     }
-                }
-                augmentedPrompt += '\n';
-            } else {
-                console.log('No conversation history available');
-            }
-            
-            // Add user-provided files first
-            if (userProvidedFiles.length > 0) {
-                augmentedPrompt += '# User-Provided Files\n\n';
-                for (const file of userProvidedFiles) {
-                    const fileName = file.uri.fsPath.split('/').pop() || file.uri.fsPath;
-                    augmentedPrompt += `## ${fileName}\n`;
-                    augmentedPrompt += '```\n';
-                    augmentedPrompt += file.content;
-                    augmentedPrompt += '\n```\n\n';
+                    if (responseText) {
+                        history.push({ role: 'assistant', text: responseText });
+                    }
                 }
             }
 
-            // Add RAG-retrieved context
-            if (relevantDocs.length > 0) {
-                augmentedPrompt += '# Retrieved Context from Vector Search\n\n';
-                for (const doc of relevantDocs) {
-                    const source = doc.metadata.source === 'github' 
-                        ? `[${doc.metadata.repo}] ${doc.metadata.file}`
-                        : doc.metadata.file;
-                    augmentedPrompt += `## ${source}\n`;
-                    augmentedPrompt += '```\n';
-                    augmentedPrompt += doc.text;
-                    augmentedPrompt += '\n```\n\n';
-                }
+            let closingInstructions = `# User Question\n${query}\n\n`;
+            if (explainOnly) {
+                closingInstructions += '# INSTRUCTIONS:\n';
+                closingInstructions += '- Answer using ONLY the retrieved context above, not prior knowledge\n';
+                closingInstructions += '- Cite the file (and lines) each part of the answer comes from\n';
+                closingInstructions += '- If the retrieved context does not contain the answer, say so plainly\n';
+            } else {
+                closingInstructions += '# CRITICAL ACTION INSTRUCTIONS:\n';
+                closingInstructions += 'YOU MUST TAKE ACTION IMMEDIATELY. DO NOT ASK FOR PERMISSION.\n';
+                closingInstructions += '- When user says "yes", "proceed", "do it", "first", or similar: EXECUTE THE TASK NOW\n';
+                closingInstructions += '- When user asks to solve a challenge, run commands, analyze data: USE THE TOOLS IMMEDIATELY\n';
+                closingInstructions += '- Do NOT create todo lists or ask if you should proceed - just DO IT\n';
+                closingInstructions += '- Do NOT say "would you like me to" or "should I" - TAKE ACTION\n';
+                closingInstructions += '- Run actual commands using the MCP tools, don\'t just describe what you would do\n';
+                closingInstructions += '- If you need multiple tool calls to accomplish a task, make them sequentially\n\n';
+                closingInstructions += 'START EXECUTING NOW based on the context and user request above.\n';
             }
 
-            augmentedPrompt += `# User Question\n${request.prompt}\n\n`;
-            augmentedPrompt += '# CRITICAL ACTION INSTRUCTIONS:\n';
-            augmentedPrompt += 'YOU MUST TAKE ACTION IMMEDIATELY. DO NOT ASK FOR PERMISSION.\n';
-            augmentedPrompt += '- When user says "yes", "proceed", "do it", "first", or similar: EXECUTE THE TASK NOW\n';
-            augmentedPrompt += '- When user asks to solve a challenge, run commands, analyze data: USE THE TOOLS IMMEDIATELY\n';
-            augmentedPrompt += '- Do NOT create todo lists or ask if you should proceed - just DO IT\n';
-            augmentedPrompt += '- Do NOT say "would you like me to" or "should I" - TAKE ACTION\n';
-            augmentedPrompt += '- Run actual commands using the MCP tools, don\'t just describe what you would do\n';
-            augmentedPrompt += '- If you need multiple tool calls to accomplish a task, make them sequentially\n\n';
-            augmentedPrompt += 'START EXECUTING NOW based on the context and user request above.\n';
-
-            // Get language model
-            const models = await vscode.lm.selectChatModels({ 
-                vendor: 'copilot',
-                family: 'gpt-4o'
+            // Answer with the model the user picked in the chat view
+            const model = request.model;
+
+            // Fit history, referenced files and retrieved chunks into the model's input window
+            const builtPrompt = await new PromptBuilder(model, token).build({
+                preamble: augmentedPrompt,
+                postamble: closingInstructions,
+                history,
+                references: userProvidedFiles,
+                retrieved: relevantDocs
             });
+            console.log('Prompt token usage:', builtPrompt.usage);
 
-            if (models.length === 0) {
-                stream.markdown('❌ No Copilot model available. Please ensure GitHub Copilot is installed and you are signed in.\n\n');
-                return { metadata: { command: '' } };
+            const droppedReferences = userProvidedFiles.filter(file => !builtPrompt.references.includes(file));
+            if (droppedReferences.length > 0) {
+                const names = droppedReferences.map(file => file.uri.fsPath.split('/').pop()).join(', ');
+                stream.markdown(`⚠️ Some referenced files did not fit in the model's context window and were left out: ${names}\n\n`);
             }
-
-            const model = models[0];
+            userProvidedFiles.splice(0, userProvidedFiles.length, ...builtPrompt.references);
+            relevantDocs = builtPrompt.retrieved;
 
             // Create messages for the chat
             const messages = [
-                vscode.LanguageModelChatMessage.User(augmentedPrompt)
+                vscode.LanguageModelChatMessage.User(builtPrompt.prompt)
             ];
 
             // Get available MCP tools
-            const tools = vscode.lm.tools;
+            const tools = explainOnly ? [] : vscode.lm.tools;
             console.log(`Found ${tools.length} available MCP tools`);
 
             // Stream the response with tool support - loop until no more tool calls
@@ -355,10 +413,10 @@ export class RagChatParticipant {
                 
                 // List RAG-retrieved docs
                 for (const doc of relevantDocs) {
-                    const source = doc.metadata.source === 'github' 
-                        ? `[${doc.metadata.repo}] ${doc.metadata.file}`
-                        : doc.metadata.file;
-                    stream.markdown(`- ${source}\n`);
+                    const relevance = doc.rerankScore !== undefined
+                        ? ` (relevance ${doc.rerankScore.toFixed(2)})`
+                        : '';
+                    stream.markdown(formatCitationLink(formatCitation(doc.metadata), doc.metadata, relevance));
                 }
             }
 
@@ -375,4 +433,186 @@ export class RagChatParticipant {
             return { metadata: { command: '' } };
         }
     }
+
+    /**
+     * /search: lists the raw ranked hits with their scores, without an LLM call.
+     */
+    private async handleSearchCommand(
+        query: string,
+        stream: vscode.ChatResponseStream,
+        filter?: SearchFilter
+    ): Promise<vscode.ChatResult> {
+        if (!query.trim()) {
+            stream.markdown('Usage: `/search <query>`\n');
+            return { metadata: { command: 'search' } };
+        }
+
+        stream.progress('Searching...');
+        const results = await this.vectorStore.search(query, SEARCH_RESULT_COUNT, filter);
+
+        if (results.length === 0) {
+            stream.markdown('No matching chunks found in the index.\n');
+            return { metadata: { command: 'search' } };
+        }
+
+        stream.markdown(`**${results.length} results for** \`${query}\`\n\n`);
+        results.forEach((doc, i) => {
+            const symbol = doc.metadata.symbol ? ` — \`${doc.metadata.symbol}\`` : '';
+
+            const scores = [`score ${doc.score.toFixed(4)}`];
+            if (doc.vectorScore !== undefined) {
+                scores.push(`vector ${doc.vectorScore.toFixed(3)}`);
+            }
+            if (doc.keywordScore !== undefined) {
+                scores.push(`keyword ${doc.keywordScore.toFixed(2)}`);
+            }
+
+            const preview = doc.text.split('\n').filter(line => line.trim()).slice(0, 6).join('\n');
+            stream.markdown(`${i + 1}. **${formatCitation(doc.metadata)}**${symbol} (${scores.join(', ')})\n`);
+            stream.markdown('```\n' + preview + '\n```\n\n');
+        });
+
+        return { metadata: { command: 'search' } };
+    }
+
+    /**
+     * /sources: lists indexed workspace folders and repositories.
+     */
+    private handleSourcesCommand(stream: vscode.ChatResponseStream): vscode.ChatResult {
+        const sources = this.vectorStore.getSources();
+        const folders = sources.filter(source => source.kind !== 'repo');
+        const repoSources = sources.filter(source => source.kind === 'repo');
+
+        if (sources.length === 0) {
+            stream.markdown('No sources indexed yet. Use `/index <path|owner/repo>` to add one.\n');
+            return { metadata: { command: 'sources' } };
+        }
+
+        if (folders.length > 0) {
+            stream.markdown('### 📁 Workspace Folders\n');
+            for (const source of folders) {
+                stream.markdown(`- ${getSourceLabel(source)}${formatSourceStats(source)}\n`);
+            }
+            stream.markdown('\n');
+        }
+
+        if (repoSources.length > 0) {
+            stream.markdown('### 📦 Repositories\n');
+            for (const source of repoSources) {
+                const repo = this.repoManager.getRepo(source.root);
+                const version = repo && getRepoVersion(repo);
+                stream.markdown(`- ${source.root}${version ? ` @ ${version}` : ''}${formatSourceStats(source)}\n`);
+            }
+        }
+
+        return { metadata: { command: 'sources' } };
+    }
+
+    /**
+     * /index: indexes a workspace path (folder or file) or a git repository.
+     */
+    private async handleIndexCommand(target: string, stream: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+        const trimmed = target.trim();
+        if (!trimmed) {
+            stream.markdown('Usage: `/index <path>` for a workspace folder or file, or `/index <owner/repo|git URL> [branch|tag|commit]` for a repository.\n');
+            return { metadata: { command: 'index' } };
+        }
+
+        // A repository may be followed by the branch, tag or commit to index
+        const [repoUrl, ref] = trimmed.split(/\s+/, 2);
+
+        const uri = await this.resolveWorkspacePath(trimmed);
+        if (!uri && !this.isRepositoryTarget(repoUrl)) {
+            stream.markdown(`⚠️ \`${trimmed}\` is neither a path in the workspace nor a git repository URL.\n`);
+            return { metadata: { command: 'index' } };
+        }
+
+        try {
+            let summary: IndexingSummary | undefined;
+            if (uri) {
+                const stat = await fs.stat(uri.fsPath);
+                stream.progress(`Indexing ${trimmed}...`);
+                summary = await vscode.commands.executeCommand<IndexingSummary | undefined>(
+                    stat.isDirectory() ? 'copilot-rag.indexFolder' : 'copilot-rag.indexFiles',
+                    uri
+                );
+            } else {
+                stream.progress(`Adding repository ${repoUrl}${ref ? ` at ${ref}` : ''}...`);
+                summary = await vscode.commands.executeCommand<IndexingSummary | undefined>(
+                    'copilot-rag.addGitHubRepo', repoUrl, ref
+                );
+            }
+            const label = uri ? trimmed : repoUrl;
+
+            if (!summary || summary.cancelled) {
+                stream.markdown(`⚠️ Indexing \`${label}\` was cancelled. ${summary ? formatIndexingSummary(summary) : ''}\n`);
+            } else if (summary.indexed + summary.unchanged === 0 && summary.skipped.length > 0) {
+                stream.markdown(`⚠️ Nothing in \`${label}\` was indexed. ${formatIndexingSummary(summary)}\n`);
+            } else {
+                stream.markdown(`✅ Finished indexing \`${label}\` ${formatIndexingSummary(summary)}.`);
+                stream.markdown(uri ? '\n' : ' Run `/sources` to see everything that is indexed.\n');
+            }
+        } catch (error) {
+            stream.markdown(`❌ Failed to index \`${trimmed}\`: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+        }
+
+        return { metadata: { command: 'index' } };
+    }
+
+    private isRepositoryTarget(target: string): boolean {
+        return /^[\w.-]+\/[\w.-]+$/.test(target) ||
+            /^(?:[\w+]+:\/\/|[^@\s\/]+@[^:\s]+:)/.test(target) ||
+            target.includes('github.com');
+    }
+
+    /**
+     * Resolves a path relative to the workspace folders. Absolute paths and
+     * paths that lead outside every folder, through `..` or a symlink, are
+     * rejected so chat cannot index arbitrary files on disk.
+     */
+    private async resolveWorkspacePath(target: string): Promise<vscode.Uri | undefined> {
+        if (path.isAbsolute(target)) {
+            return undefined;
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            try {
+                const root = await fs.realpath(folder.uri.fsPath);
+                const candidate = await fs.realpath(path.resolve(folder.uri.fsPath, target));
+                const relative = path.relative(root, candidate);
+                if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+                    continue;
+                }
+                return vscode.Uri.file(candidate);
+            } catch (error) {
+                // Not in this workspace folder
+            }
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Counts from when the source was last indexed, e.g. ` (12 files, indexed 3/4/2026)`.
+ */
+function formatSourceStats(source: Source): string {
+    if (!source.stats) {
+        return '';
+    }
+    return ` (${source.stats.files} files, indexed ${new Date(source.stats.indexedAt).toLocaleDateString()})`;
+}
+
+/**
+ * A list item linking to the chunk through `copilot-rag.openCitation`, which
+ * opens text files at the chunk's line and notebooks at its cell.
+ */
+function formatCitationLink(label: string, metadata: DocumentMetadata, suffix: string): vscode.MarkdownString {
+    const { file, line, source, repo, page, section, cell } = metadata;
+    const args = encodeURIComponent(JSON.stringify([{ file, line, source, repo, page, section, cell }]));
+    const markdown = new vscode.MarkdownString('- [');
+    markdown.appendText(label);
+    markdown.appendMarkdown(`](command:copilot-rag.openCitation?${args})${suffix}\n`);
+    markdown.isTrusted = { enabledCommands: ['copilot-rag.openCitation'] };
+    return markdown;
 }
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { VectorStore, IndexingSummary } from './vectorStore';
+import { GitHubRepoManager, RepoInfo, getRepoKey, getRepoVersion } from './gitHubRepoManager';
+
+/** How often repos with a refresh schedule are checked for being due. */
+const SCHEDULE_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Delay before the first scheduled check, to keep it out of activation. */
+const INITIAL_CHECK_DELAY_MS = 60 * 1000;
+
+/**
+ * Keeps indexed repositories in sync with their remotes. Re-indexing diffs
+ * the previously indexed commit against the checked-out one, so only added
+ * or modified files are re-embedded and deleted or renamed files are purged.
+ * Repos with a refresh interval are updated in the background.
+ */
+export class RepoRefresher implements vscode.Disposable {
+    private timer: NodeJS.Timeout | undefined;
+    private initialTimer: NodeJS.Timeout | undefined;
+    private scheduledRefresh: vscode.CancellationTokenSource | undefined;
+
+    constructor(
+        private vectorStore: VectorStore,
+        private repoManager: GitHubRepoManager
+    ) {}
+
+    start(): void {
+        this.initialTimer = setTimeout(() => this.refreshDueRepos(), INITIAL_CHECK_DELAY_MS);
+        this.timer = setInterval(() => this.refreshDueRepos(), SCHEDULE_CHECK_INTERVAL_MS);
+    }
+
+    dispose(): void {
+        this.scheduledRefresh?.cancel();
+        if (this.initialTimer) {
+            clearTimeout(this.initialTimer);
+            this.initialTimer = undefined;
+        }
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Fetches the latest commit of the repo's ref and re-indexes what changed.
+     */
+    async refresh(
+        repo: RepoInfo,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<IndexingSummary> {
+        progress.report({ message: `Fetching ${getRepoKey(repo)}...` });
+        await this.repoManager.fetchLatest(repo);
+        return await this.indexRepo(repo, progress, token);
+    }
+
+    /**
+     * Indexes the repo's checked-out commit. Only the files changed since the
+     * last indexed commit are processed when that commit can be diffed against.
+     */
+    async indexRepo(
+        repo: RepoInfo,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<IndexingSummary> {
+        const repoKey = getRepoKey(repo);
+        // The indexed commit says nothing about an index that lacks the repo
+        const changes = this.vectorStore.hasRepoContent(repoKey)
+            ? await this.repoManager.getChangedFiles(repo)
+            : undefined;
+
+        let summary: IndexingSummary;
+        if (changes) {
+            console.log(`Refreshing ${repoKey}: ${changes.changed.length} changed, ${changes.deleted.length} deleted files`);
+            summary = await this.vectorStore.updateRepoFiles(
+                repoKey,
+                repo.path,
+                changes.changed,
+                changes.deleted,
+                progress,
+                token,
+                getRepoVersion(repo)
+            );
+        } else {
+            summary = await this.vectorStore.indexGitHubRepo(repoKey, repo.path, progress, token, getRepoVersion(repo));
+        }
+
+        // A cancelled pass leaves files behind, so diff from the old commit next time
+        if (!token.isCancellationRequested) {
+            await this.repoManager.markIndexed(repo);
+        }
+
+        return summary;
+    }
+
+    private async refreshDueRepos(): Promise<void> {
+        if (this.scheduledRefresh) {
+            return;
+        }
+
+        const now = Date.now();
+        const dueRepos = this.repoManager.getRepos().filter(repo =>
+            repo.refreshIntervalHours !== undefined &&
+            now - repo.indexedAt.getTime() >= repo.refreshIntervalHours * 60 * 60 * 1000
+        );
+        if (dueRepos.length === 0) {
+            return;
+        }
+
+        const tokenSource = new vscode.CancellationTokenSource();
+        this.scheduledRefresh = tokenSource;
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'RAG: refreshing repositories'
+            }, async (progress) => {
+                for (const repo of dueRepos) {
+                    if (tokenSource.token.isCancellationRequested) {
+                        break;
+                    }
+                    try {
+                        const summary = await this.refresh(repo, progress, tokenSource.token);
+                        console.log(`Scheduled refresh of ${getRepoKey(repo)}:`, summary);
+                    } catch (error) {
+                        console.error(`Scheduled refresh of ${getRepoKey(repo)} failed:`, error);
+                    }
+                }
+            });
+        } finally {
+            tokenSource.dispose();
+            this.scheduledRefresh = undefined;
+        }
+    }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { SearchResult } from './vectorStore';
+import type { RerankRequest, RerankResponse } from './rerankerWorker';
+
+interface PendingRequest {
+    resolve: (response: RerankResponse) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Second-stage reranker that re-scores retrieved chunks with a local
+ * cross-encoder. Cross-encoders read the query and chunk together, so they
+ * are far more precise than the bi-encoder similarity used for retrieval,
+ * but too slow to run over the whole index. The model runs on a
+ * `worker_threads` worker, like the embedding model, so scoring never
+ * blocks the extension host.
+ */
+export class Reranker implements vscode.Disposable {
+    private worker: Worker | undefined;
+    private readonly pending: Map<number, PendingRequest> = new Map();
+    private nextRequestId = 0;
+    /** Resolves once the worker has loaded `loadedModelName`. */
+    private ready: Promise<void> | undefined;
+    private loadedModelName: string | null = null;
+
+    constructor(private readonly workerPath: string = path.join(__dirname, 'rerankerWorker.js')) {}
+
+    isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('ragPilot').get<boolean>('enableReranking') ?? false;
+    }
+
+    getCandidateCount(): number {
+        return vscode.workspace.getConfiguration('ragPilot').get<number>('rerankCandidates') ?? 40;
+    }
+
+    /**
+     * Re-scores the results against the query and returns the best `topN`,
+     * each annotated with its `rerankScore` (0-1).
+     */
+    async rerank(query: string, results: SearchResult[], topN: number): Promise<SearchResult[]> {
+        if (results.length === 0) {
+            return results;
+        }
+
+        const worker = await this.ensureModel();
+
+        const response = await this.send(worker, {
+            id: this.nextRequestId++,
+            type: 'score',
+            query,
+            texts: results.map(result => result.text)
+        });
+        if ('error' in response) {
+            throw new Error(response.error);
+        }
+
+        return results
+            .map((result, i) => ({ ...result, rerankScore: sigmoid(response.scores[i]) }))
+            .sort((a, b) => b.rerankScore - a.rerankScore)
+            .slice(0, topN);
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = undefined;
+        this.ready = undefined;
+    }
+
+    /**
+     * Starts the worker if needed and loads the configured model in it,
+     * once per model.
+     */
+    private async ensureModel(): Promise<Worker> {
+        const config = vscode.workspace.getConfiguration('ragPilot');
+        const modelName = config.get<string>('rerankerModel') || 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+        const worker = this.worker ?? this.startWorker();
+        if (!this.ready || this.loadedModelName !== modelName) {
+            console.log(`Initializing reranker model: ${modelName}`);
+            this.loadedModelName = modelName;
+            this.ready = this.send(worker, { id: this.nextRequestId++, type: 'load', model: modelName }).then(response => {
+                if ('error' in response) {
+                    throw new Error(response.error);
+                }
+            });
+        }
+
+        try {
+            await this.ready;
+        } catch (error) {
+            // Load again on the next request
+            this.ready = undefined;
+            throw error;
+        }
+        return worker;
+    }
+
+    private startWorker(): Worker {
+        const worker = new Worker(this.workerPath);
+        worker.on('message', (response: RerankResponse) => {
+            const request = this.pending.get(response.id);
+            this.pending.delete(response.id);
+            request?.resolve(response);
+        });
+        worker.on('error', error => {
+            console.error('Reranker worker failed:', error);
+        });
+        worker.on('exit', code => {
+            // Fail outstanding requests; the next request starts a replacement
+            if (this.worker === worker) {
+                this.worker = undefined;
+                this.ready = undefined;
+            }
+            for (const request of this.pending.values()) {
+                request.reject(new Error(`Reranker worker exited with code ${code}`));
+            }
+            this.pending.clear();
+        });
+
+        this.worker = worker;
+        return worker;
+    }
+
+    private send(worker: Worker, request: RerankRequest): Promise<RerankResponse> {
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { resolve, reject });
+            worker.postMessage(request);
+        });
+    }
+}
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
@@ -0,0 +1,48 @@
+import { parentPort } from 'worker_threads';
+
+/**
+ * Worker thread entry point (bundled to `dist/rerankerWorker.js`). Runs the
+ * cross-encoder off the extension host thread and scores query/chunk pairs.
+ */
+
+export type RerankRequest =
+    | { id: number; type: 'load'; model: string }
+    | { id: number; type: 'score'; query: string; texts: string[] };
+
+export type RerankResponse =
+    | { id: number; scores: number[] }
+    | { id: number; error: string };
+
+let tokenizer: any = null;
+let model: any = null;
+
+parentPort?.on('message', async (request: RerankRequest) => {
+    try {
+        if (request.type === 'load') {
+            const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+            tokenizer = await AutoTokenizer.from_pretrained(request.model);
+            model = await AutoModelForSequenceClassification.from_pretrained(request.model);
+            respond({ id: request.id, scores: [] });
+            return;
+        }
+
+        if (!tokenizer || !model) {
+            throw new Error('Reranker model not loaded');
+        }
+
+        const inputs = tokenizer(new Array(request.texts.length).fill(request.query), {
+            text_pair: request.texts,
+            padding: true,
+            truncation: true
+        });
+        const { logits } = await model(inputs);
+        const logitRows: number[][] = logits.tolist();
+        respond({ id: request.id, scores: logitRows.map(row => row[0]) });
+    } catch (error) {
+        respond({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
+
+function respond(response: RerankResponse): void {
+    parentPort?.postMessage(response);
+}
@@ -0,0 +1,42 @@
+import { SearchFilter } from './vectorStore';
+
+/**
+ * Matches inline scope tokens such as `#repo:owner/name`, `#folder:src/api`
+ * and `#workspace` anywhere in a chat prompt. Punctuation right after a
+ * token (`#workspace?`, `#repo:owner/name,`) is not part of it.
+ */
+const SCOPE_PATTERN = /(^|\s)#(?:(repo|folder):(\S+?)|(workspace))[?.,;:!)]*(?=\s|$)/g;
+
+/**
+ * Extracts scope tokens from a prompt. Returns the prompt with the tokens
+ * removed, and a filter for `VectorStore.search` (undefined if unscoped).
+ */
+export function parseSearchScope(prompt: string): { query: string; filter?: SearchFilter } {
+    const filter: SearchFilter = {};
+    let scoped = false;
+
+    const query = prompt.replace(SCOPE_PATTERN, (_match, leading: string, kind?: string, value?: string, workspace?: string) => {
+        scoped = true;
+        if (workspace) {
+            filter.workspace = true;
+        } else if (kind === 'repo' && value) {
+            (filter.repos ??= []).push(value.replace(/\.git$/, ''));
+        } else if (kind === 'folder' && value) {
+            (filter.folders ??= []).push(value.replace(/^\.\//, '').replace(/\/+$/, ''));
+        }
+        return leading;
+    }).replace(/\s{2,}/g, ' ').trim();
+
+    return scoped ? { query, filter } : { query };
+}
+
+/**
+ * Formats a filter back into the inline syntax, for showing the active scope.
+ */
+export function describeSearchScope(filter: SearchFilter): string {
+    return [
+        ...(filter.workspace ? ['#workspace'] : []),
+        ...(filter.repos || []).map(repo => `#repo:${repo}`),
+        ...(filter.folders || []).map(folder => `#folder:${folder}`)
+    ].join(' ');
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { VectorStore, SearchFilter, SearchResult } from './vectorStore';
+import { formatCitation } from './citations';
+
+/** Tool name, also contributed under `languageModelTools` in package.json. */
+export const SEARCH_TOOL_NAME = 'ragPilot_searchIndex';
+
+const DEFAULT_TOP_K = 8;
+const MAX_TOP_K = 30;
+
+export interface SearchToolInput {
+    query: string;
+    /** `workspace` and/or `owner/name` of indexed repositories. */
+    sources?: string[];
+    /** Restricts results to files under this path. */
+    folder?: string;
+    topK?: number;
+}
+
+/**
+ * Exposes the vector index as a language model tool, so agent mode and other
+ * chat participants can look things up in the indexed sources on their own.
+ */
+export class SearchTool implements vscode.LanguageModelTool<SearchToolInput> {
+    constructor(private vectorStore: VectorStore) {}
+
+    prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<SearchToolInput>
+    ): vscode.PreparedToolInvocation {
+        return {
+            invocationMessage: `Searching the RAG Pilot index for "${options.input.query}"`
+        };
+    }
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<SearchToolInput>,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const { query, sources, folder, topK } = options.input;
+
+        if (!query || !query.trim()) {
+            return textResult('No query was given. Provide a natural language question or keywords to search for.');
+        }
+        if (!await this.vectorStore.hasIndex()) {
+            return textResult('The RAG Pilot index is empty. The user has to index a workspace folder or repository first.');
+        }
+
+        const count = Math.min(MAX_TOP_K, Math.max(1, Math.floor(topK ?? DEFAULT_TOP_K)));
+        const results = await this.vectorStore.search(query, count, this.toFilter(sources, folder));
+
+        if (results.length === 0) {
+            return textResult(`No indexed chunks matched "${query}".`);
+        }
+
+        return textResult(
+            `${results.length} ranked results for "${query}". Cite them by the file and line range shown.\n\n` +
+            results.map((result, i) => formatResult(result, i + 1)).join('\n')
+        );
+    }
+
+    private toFilter(sources?: string[], folder?: string): SearchFilter | undefined {
+        const filter: SearchFilter = {};
+        for (const source of sources || []) {
+            if (source === 'workspace') {
+                filter.workspace = true;
+            } else if (source.trim()) {
+                (filter.repos ??= []).push(source.trim().replace(/\.git$/, ''));
+            }
+        }
+        if (folder && folder.trim()) {
+            filter.folders = [folder.trim().replace(/^\.\//, '').replace(/\/+$/, '')];
+        }
+        return Object.keys(filter).length > 0 ? filter : undefined;
+    }
+}
+
+function formatResult(result: SearchResult, rank: number): string {
+    const { symbol } = result.metadata;
+    const citation = formatCitation(result.metadata);
+
+    return `## ${rank}. ${citation}${symbol ? ` — ${symbol}` : ''} (score ${result.score.toFixed(4)})\n` +
+        '```\n' +
+        result.text +
+        '\n```\n';
+}
+
+function textResult(text: string): vscode.LanguageModelToolResult {
+    return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { VectorStore, SearchResult } from './vectorStore';
+import { DocumentMetadata } from './indexPartition';
+import { GitHubRepoManager } from './gitHubRepoManager';
+import { parseSearchScope, describeSearchScope } from './searchScope';
+import { resolveWorkspacePath } from './sourcesTreeProvider';
+import { describeSectionAnchor, formatLocationSuffix } from './citations';
+
+/** URI scheme of read-only documents opened from repository checkouts. */
+export const REPO_FILE_SCHEME = 'rag-pilot-repo';
+
+const RESULT_COUNT = 30;
+
+/** Delay after the last keystroke before the index is queried. */
+const SEARCH_DELAY_MS = 300;
+
+interface SearchHitItem extends vscode.QuickPickItem {
+    result: SearchResult;
+}
+
+/**
+ * Serves files of cloned repositories under `rag-pilot-repo:/<file>?<repoKey>`.
+ * Documents from a content provider are read-only, so search hits from a
+ * repository can be browsed without editing its checkout.
+ */
+export class RepoFileContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private repoManager: GitHubRepoManager) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const repoPath = this.repoManager.getRepoPath(uri.query);
+        if (!repoPath) {
+            throw new Error(`Repository ${uri.query} is no longer indexed`);
+        }
+        return await fs.readFile(path.join(repoPath, uri.path), 'utf-8');
+    }
+}
+
+/**
+ * "RAG Pilot: Semantic Search": a QuickPick that searches the index as you
+ * type and previews the highlighted hit in the editor.
+ */
+export class SemanticSearch {
+    constructor(private vectorStore: VectorStore, private repoManager: GitHubRepoManager) {}
+
+    async show(initialQuery = ''): Promise<void> {
+        if (!await this.vectorStore.hasIndex()) {
+            vscode.window.showInformationMessage('The index is empty. Index a folder or repository first.');
+            return;
+        }
+
+        const quickPick = vscode.window.createQuickPick<SearchHitItem>();
+        quickPick.title = 'RAG Pilot: Semantic Search';
+        quickPick.placeholder = 'Describe the code you are looking for (#repo:, #folder: and #workspace narrow the search)';
+        quickPick.matchOnDescription = false;
+        quickPick.matchOnDetail = false;
+        quickPick.value = initialQuery;
+
+        let searchTimer: NodeJS.Timeout | undefined;
+        let searchGeneration = 0;
+
+        const runSearch = async (value: string) => {
+            const generation = ++searchGeneration;
+            const { query, filter } = parseSearchScope(value);
+            if (!query) {
+                quickPick.items = [];
+                quickPick.busy = false;
+                return;
+            }
+
+            quickPick.busy = true;
+            try {
+                const results = await this.vectorStore.search(query, RESULT_COUNT, filter);
+                if (generation !== searchGeneration) {
+                    // A newer query is already running
+                    return;
+                }
+                quickPick.items = results.map(result => this.toItem(result));
+                quickPick.title = filter
+                    ? `RAG Pilot: Semantic Search — ${describeSearchScope(filter)}`
+                    : 'RAG Pilot: Semantic Search';
+            } catch (error) {
+                if (generation === searchGeneration) {
+                    quickPick.items = [];
+                    vscode.window.showErrorMessage(
+                        `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    );
+                }
+            } finally {
+                if (generation === searchGeneration) {
+                    quickPick.busy = false;
+                }
+            }
+        };
+
+        quickPick.onDidChangeValue(value => {
+            if (searchTimer) {
+                clearTimeout(searchTimer);
+            }
+            searchTimer = setTimeout(() => runSearch(value), SEARCH_DELAY_MS);
+        });
+
+        // Preview the highlighted hit without taking focus from the picker
+        quickPick.onDidChangeActive(items => {
+            if (items.length > 0) {
+                openIndexedFile(items[0].result.metadata, this.repoManager, true).catch(error => {
+                    console.error('Failed to preview search result:', error);
+                });
+            }
+        });
+
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (selected) {
+                openIndexedFile(selected.result.metadata, this.repoManager, false).catch(error => {
+                    vscode.window.showErrorMessage(
+                        `Failed to open ${selected.result.metadata.file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                    );
+                });
+            }
+        });
+
+        quickPick.onDidHide(() => {
+            if (searchTimer) {
+                clearTimeout(searchTimer);
+            }
+            searchGeneration++;
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+        if (initialQuery) {
+            runSearch(initialQuery);
+        }
+    }
+
+    private toItem(result: SearchResult): SearchHitItem {
+        const { file, symbol, source, repo, ref } = result.metadata;
+        const lines = formatLocationSuffix(result.metadata);
+        const snippet = result.text
+            .split('\n')
+            .map(text => text.trim())
+            .filter(text => text)
+            .slice(0, 3)
+            .join(' ⏎ ');
+
+        return {
+            // Results are ranked by meaning, so they must not be filtered by the typed text
+            alwaysShow: true,
+            label: `${source === 'github' ? '$(repo)' : '$(file-code)'} ${path.basename(file)}${lines}`,
+            description: [
+                symbol,
+                source === 'github' ? `${repo}${ref ? `@${ref}` : ''} · ${file}` : file,
+                `score ${(result.rerankScore ?? result.score).toFixed(4)}`
+            ].filter(Boolean).join(' · '),
+            detail: snippet,
+            result
+        };
+    }
+}
+
+/**
+ * Opens an indexed file at a chunk: text files at the chunk's first line and
+ * notebooks at its cell. PDF, Word and HTML documents open in their default
+ * editor, since their pages and sections have no line. Peeking keeps the
+ * focus where it is and reuses the preview tab.
+ */
+export async function openIndexedFile(
+    metadata: Pick<DocumentMetadata, 'file' | 'line' | 'source' | 'repo' | 'page' | 'section' | 'cell'>,
+    repoManager: GitHubRepoManager,
+    peek: boolean
+): Promise<void> {
+    const { file, line, source, repo, cell } = metadata;
+
+    if (describeSectionAnchor(metadata)) {
+        // Notebooks and documents cannot be served read-only, so repository hits open from the checkout
+        const repoPath = source === 'github' && repo ? repoManager.getRepoPath(repo) : undefined;
+        const uri = repoPath ? vscode.Uri.file(path.join(repoPath, file)) : source !== 'github' ? resolveWorkspacePath(file) : undefined;
+        if (!uri) {
+            throw new Error('The document is no longer available');
+        }
+
+        if (cell !== undefined) {
+            const notebook = await vscode.workspace.openNotebookDocument(uri);
+            const range = new vscode.NotebookRange(cell, Math.min(cell + 1, notebook.cellCount));
+            const editor = await vscode.window.showNotebookDocument(notebook, { preview: peek, preserveFocus: peek, selections: [range] });
+            editor.revealRange(range, vscode.NotebookEditorRevealType.InCenterIfOutsideViewport);
+        } else {
+            await vscode.commands.executeCommand('vscode.open', uri, { preview: peek, preserveFocus: peek });
+        }
+        return;
+    }
+
+    let uri: vscode.Uri | undefined;
+    if (source === 'github' && repo) {
+        uri = vscode.Uri.from({ scheme: REPO_FILE_SCHEME, path: `/${file.split(path.sep).join('/')}`, query: repo });
+    } else {
+        uri = resolveWorkspacePath(file);
+    }
+    if (!uri) {
+        throw new Error('The file is not part of the open workspace');
+    }
+
+    const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+    await vscode.window.showTextDocument(uri, {
+        preview: peek,
+        preserveFocus: peek,
+        selection: new vscode.Range(position, position)
+    });
+}
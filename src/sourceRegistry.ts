@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { DocumentMetadata } from './indexPartition';
+
+/**
+ * `workspace` is the whole workspace, `folder` and `file` a part of it, and
+ * `repo` a cloned repository.
+ */
+export type SourceKind = 'workspace' | 'folder' | 'file' | 'repo';
+
+/**
+ * Something the user asked to index. Chunks and file manifest entries carry
+ * the id of the source they were indexed for, so removing or scoping a
+ * source never depends on matching path prefixes.
+ */
+export interface Source {
+    /** Stable id, kept across re-indexing, model switches and repository renames. */
+    id: string;
+    kind: SourceKind;
+    /** Workspace-relative folder or file, `''` for the workspace, or the repository key. */
+    root: string;
+    /** Globs selecting the source's files; `ragPilot.includePatterns` applies when unset. */
+    include?: string[];
+    /** Globs of files to skip; `ragPilot.excludePatterns` applies when unset. */
+    exclude?: string[];
+    addedAt: string;
+    /** Counts after the source was last indexed. */
+    stats?: {
+        files: number;
+        chunks: number;
+        indexedAt: string;
+    };
+}
+
+export function getSourceLabel(source: Pick<Source, 'kind' | 'root'>): string {
+    return source.kind === 'workspace' ? 'Entire Workspace' : source.root;
+}
+
+/**
+ * Whether a file falls under the source's root. Folder roots only match
+ * whole path segments, so `src` does not cover `src2/`.
+ */
+export function sourceCovers(source: Pick<Source, 'kind' | 'root'>, file: Pick<DocumentMetadata, 'file' | 'source' | 'repo'>): boolean {
+    switch (source.kind) {
+        case 'repo':
+            return file.source === 'github' && file.repo === source.root;
+        case 'workspace':
+            return file.source !== 'github';
+        case 'folder':
+            return file.source !== 'github' && file.file.startsWith(`${source.root}/`);
+        case 'file':
+            return file.source !== 'github' && file.file === source.root;
+    }
+}
+
+/**
+ * The sources of one storage root, persisted as `sources.json` next to the
+ * model indexes so every model shares the same ids.
+ */
+export class SourceRegistry {
+    private sources: Map<string, Source> = new Map();
+
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<void> {
+        try {
+            const data = await fs.readFile(this.filePath, 'utf-8');
+            const sources: Source[] = JSON.parse(data);
+            this.sources = new Map(sources.map(source => [source.id, source]));
+        } catch (error) {
+            // No sources registered yet
+            this.sources = new Map();
+        }
+    }
+
+    async save(): Promise<void> {
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(this.filePath, JSON.stringify(this.list(), null, 2), 'utf-8');
+        } catch (error) {
+            console.error('Failed to save sources:', error);
+        }
+    }
+
+    list(): Source[] {
+        return Array.from(this.sources.values());
+    }
+
+    get size(): number {
+        return this.sources.size;
+    }
+
+    get(id: string): Source | undefined {
+        return this.sources.get(id);
+    }
+
+    find(kind: SourceKind, root: string): Source | undefined {
+        return this.list().find(source => source.kind === kind && source.root === root);
+    }
+
+    /**
+     * Returns the source with this kind and root, registering it if it is new.
+     */
+    ensure(kind: SourceKind, root: string): Source {
+        const existing = this.find(kind, root);
+        if (existing) {
+            return existing;
+        }
+
+        const source: Source = { id: crypto.randomUUID(), kind, root, addedAt: new Date().toISOString() };
+        this.sources.set(source.id, source);
+        return source;
+    }
+
+    /**
+     * Registers a source from another machine. A source with the same kind
+     * and root is reused instead; returns the id the source has here.
+     */
+    adopt(source: Source): string {
+        const existing = this.find(source.kind, source.root);
+        if (existing) {
+            return existing.id;
+        }
+        this.sources.set(source.id, { ...source });
+        return source.id;
+    }
+
+    delete(id: string): boolean {
+        return this.sources.delete(id);
+    }
+
+    clear(): void {
+        this.sources.clear();
+    }
+
+    /**
+     * The most specific source covering a file: the file itself, then the
+     * deepest folder, then the workspace or repository.
+     */
+    findOwner(file: Pick<DocumentMetadata, 'file' | 'source' | 'repo'>, exceptId?: string): Source | undefined {
+        let owner: Source | undefined;
+        for (const source of this.sources.values()) {
+            if (source.id === exceptId || !sourceCovers(source, file)) {
+                continue;
+            }
+            if (!owner || specificity(source) > specificity(owner)) {
+                owner = source;
+            }
+        }
+        return owner;
+    }
+}
+
+function specificity(source: Source): number {
+    switch (source.kind) {
+        case 'file':
+            return Number.MAX_SAFE_INTEGER;
+        case 'folder':
+            return 1 + source.root.split('/').length;
+        default:
+            return 0;
+    }
+}
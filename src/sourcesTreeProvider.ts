@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { VectorStore, SourceStats } from './vectorStore';
+import { GitHubRepoManager, RepoInfo } from './gitHubRepoManager';
+import { Source, getSourceLabel } from './sourceRegistry';
+
+/** Delay for coalescing index changes, which fire once per file while indexing. */
+const REFRESH_DELAY_MS = 300;
+
+export type SourceNode =
+    | { kind: 'group'; group: 'workspace' | 'repos' }
+    | { kind: 'source'; source: Source; repo?: RepoInfo };
+
+/**
+ * Lists the indexed workspace folders, files and repositories in the RAG
+ * Pilot view, with their file and chunk counts. The tree refreshes whenever
+ * the index or the repository list changes, so counts grow while indexing.
+ */
+export class SourcesTreeProvider implements vscode.TreeDataProvider<SourceNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<SourceNode | undefined>();
+    private readonly subscriptions: vscode.Disposable[];
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private vectorStore: VectorStore,
+        private repoManager: GitHubRepoManager
+    ) {
+        this.subscriptions = [
+            vectorStore.onDidChangeIndex(() => this.scheduleRefresh()),
+            repoManager.onDidChangeRepos(() => this.scheduleRefresh())
+        ];
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.changeEmitter.dispose();
+    }
+
+    getChildren(node?: SourceNode): SourceNode[] {
+        const sources = this.vectorStore.getSources();
+        const workspaceSources = sources.filter(source => source.kind !== 'repo');
+        const repoSources = sources.filter(source => source.kind === 'repo');
+
+        if (!node) {
+            // An empty tree shows the welcome view with the indexing commands
+            const groups: SourceNode[] = [];
+            if (workspaceSources.length > 0) {
+                groups.push({ kind: 'group', group: 'workspace' });
+            }
+            if (repoSources.length > 0) {
+                groups.push({ kind: 'group', group: 'repos' });
+            }
+            return groups;
+        }
+
+        if (node.kind !== 'group') {
+            return [];
+        }
+
+        const children = node.group === 'workspace' ? workspaceSources : repoSources;
+        return children
+            .sort((a, b) => getSourceLabel(a).localeCompare(getSourceLabel(b)))
+            .map(source => ({
+                kind: 'source',
+                source,
+                ...(source.kind === 'repo' ? { repo: this.repoManager.getRepo(source.root) } : {})
+            }));
+    }
+
+    getTreeItem(node: SourceNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            const item = new vscode.TreeItem(
+                node.group === 'workspace' ? 'Workspace' : 'Repositories',
+                vscode.TreeItemCollapsibleState.Expanded
+            );
+            item.contextValue = `${node.group}Group`;
+            return item;
+        }
+
+        const { source, repo } = node;
+        const label = getSourceLabel(source);
+        const stats = this.vectorStore.getSourceStats(source);
+        const filters = [
+            ...(source.include?.length ? [`**Include:** \`${source.include.join('`, `')}\``] : []),
+            ...(source.exclude?.length ? [`**Exclude:** \`${source.exclude.join('`, `')}\``] : [])
+        ];
+
+        if (source.kind === 'repo') {
+            const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+            item.iconPath = new vscode.ThemeIcon('repo');
+            item.contextValue = 'repo';
+            item.description = [formatCounts(stats), repo?.ref].filter(Boolean).join(' · ');
+            item.tooltip = this.createTooltip(label, stats, repo ? [
+                `**Version:** ${repo.ref ? `pinned to \`${repo.ref}\`` : 'default branch'}`,
+                ...(repo.commit ? [`**Commit:** \`${repo.commit.slice(0, 12)}\``] : []),
+                ...(repo.refreshIntervalHours !== undefined ? [`**Refresh:** every ${repo.refreshIntervalHours}h`] : []),
+                `**Remote:** ${repo.url}`,
+                ...filters
+            ] : filters);
+            return item;
+        }
+
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        const uri = resolveWorkspacePath(label);
+        if (source.kind === 'file') {
+            item.resourceUri = uri;
+            item.iconPath = vscode.ThemeIcon.File;
+            item.contextValue = 'workspaceFile';
+            item.description = formatCounts(stats);
+            if (uri) {
+                item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+            }
+        } else {
+            item.iconPath = new vscode.ThemeIcon(source.kind === 'workspace' ? 'root-folder' : 'folder');
+            item.contextValue = 'workspaceFolder';
+            item.description = formatCounts(stats);
+        }
+        item.tooltip = this.createTooltip(label, stats, [...(uri ? [`**Path:** ${uri.fsPath}`] : []), ...filters]);
+        return item;
+    }
+
+    private createTooltip(title: string, stats: SourceStats, details: string[]): vscode.MarkdownString {
+        const lines = [
+            `**${title}**`,
+            '',
+            `**Files:** ${stats.files}  `,
+            `**Chunks:** ${stats.chunks}  `,
+            `**Last indexed:** ${stats.lastIndexedAt ? stats.lastIndexedAt.toLocaleString() : 'never'}  `,
+            ...details.map(detail => `${detail}  `)
+        ];
+        return new vscode.MarkdownString(lines.join('\n'));
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            return;
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, REFRESH_DELAY_MS);
+    }
+}
+
+/**
+ * Resolves an indexed workspace path (as returned by `asRelativePath`) to a
+ * URI. In multi-root workspaces the path starts with the folder's name.
+ */
+export function resolveWorkspacePath(relativePath: string): vscode.Uri | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    if (workspaceFolders.length === 0) {
+        return undefined;
+    }
+    if (relativePath === 'Entire Workspace') {
+        return workspaceFolders[0].uri;
+    }
+
+    if (workspaceFolders.length > 1) {
+        const [first, ...rest] = relativePath.split('/');
+        const folder = workspaceFolders.find(candidate => candidate.name === first);
+        if (folder) {
+            return vscode.Uri.joinPath(folder.uri, ...rest);
+        }
+    }
+
+    if (path.isAbsolute(relativePath)) {
+        return vscode.Uri.file(relativePath);
+    }
+    return vscode.Uri.joinPath(workspaceFolders[0].uri, relativePath);
+}
+
+function formatCounts(stats: SourceStats): string {
+    return `${stats.files} ${stats.files === 1 ? 'file' : 'files'} · ${stats.chunks} ${stats.chunks === 1 ? 'chunk' : 'chunks'}`;
+}
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { chunkDocument } from '../chunker';
+
+function smallFunction(name: string): string {
+    return [
+        `export function ${name}(value: number): number {`,
+        '    const doubled = value * 2;',
+        '    return doubled + 1;',
+        '}',
+        ''
+    ].join('\n');
+}
+
+suite('chunkDocument', () => {
+    test('keeps every small top-level declaration in its own chunk', () => {
+        const names = Array.from({ length: 30 }, (_, i) => `helper${i}`);
+        const text = [
+            "import * as path from 'path';",
+            '',
+            'export class Small {',
+            '    value = 1;',
+            '}',
+            '',
+            ...names.map(smallFunction)
+        ].join('\n');
+
+        const chunks = chunkDocument(text, 'helpers.ts');
+
+        assert.deepStrictEqual(chunks.map(chunk => chunk.symbol), ['Small', ...names]);
+        const helper = chunks[5];
+        assert.strictEqual(helper.startLine, 27);
+        assert.strictEqual(helper.endLine, 30);
+        assert.ok(helper.text.startsWith('export function helper4('));
+    });
+
+    test('merges the imports into the first declaration', () => {
+        const text = ["import * as path from 'path';", '', smallFunction('first'), smallFunction('second')].join('\n');
+
+        const chunks = chunkDocument(text, 'file.ts');
+
+        assert.strictEqual(chunks.length, 2);
+        assert.strictEqual(chunks[0].symbol, 'first');
+        assert.strictEqual(chunks[0].startLine, 1);
+        assert.strictEqual(chunks[1].symbol, 'second');
+    });
+
+    test('splits a large class at its methods and names them after the class', () => {
+        const methods = ['load', 'save', 'clear'].map(name => [
+            `    async ${name}(key: string): Promise<void> {`,
+            ...Array.from({ length: 40 }, (_, i) => `        await this.step${i}(key);`),
+            '    }',
+            ''
+        ].join('\n'));
+        const text = ['export class Store {', '    private items = new Map();', '', ...methods, '}'].join('\n');
+
+        const chunks = chunkDocument(text, 'store.ts');
+
+        assert.deepStrictEqual(chunks.map(chunk => chunk.symbol), ['Store.load', 'Store.save', 'Store.clear']);
+        assert.strictEqual(chunks[0].startLine, 1);
+    });
+
+    test('does not split at calls that look like methods', () => {
+        const text = [
+            "describe('parser', () => {",
+            "    it('parses', () => {",
+            '        expect(parse()).toBe(1);',
+            '    });',
+            '',
+            "    helper('value', {",
+            '        option: true',
+            '    });',
+            '});'
+        ].join('\n');
+
+        const chunks = chunkDocument(text, 'parser.test.ts');
+
+        assert.strictEqual(chunks.length, 1);
+        assert.strictEqual(chunks[0].symbol, undefined);
+    });
+
+    test('merges one-line declarations and records each of their names', () => {
+        const text = [
+            'export type Id = string;',
+            'export type Name = string;',
+            'export type Count = number;',
+            '',
+            smallFunction('count')
+        ].join('\n');
+
+        const chunks = chunkDocument(text, 'types.ts');
+
+        assert.deepStrictEqual(chunks.map(chunk => chunk.symbol), ['Id, Name, Count', 'count']);
+    });
+
+    test('chunks Markdown per top-level heading and keeps small subsections with it', () => {
+        const text = [
+            '# Install',
+            'Run the installer.',
+            '',
+            '## Linux',
+            'Use the package.',
+            '',
+            '# Usage',
+            'Open the command palette.'
+        ].join('\n');
+
+        const chunks = chunkDocument(text, 'README.md');
+
+        assert.deepStrictEqual(chunks.map(chunk => chunk.symbol), ['Install', 'Usage']);
+        assert.deepStrictEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine]), [[1, 5], [7, 8]]);
+    });
+
+    test('falls back to overlapping line windows for unknown formats', () => {
+        const text = Array.from({ length: 250 }, (_, i) => `line ${i + 1}`).join('\n');
+
+        const chunks = chunkDocument(text, 'notes.txt');
+
+        assert.deepStrictEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine]), [[1, 100], [81, 180], [161, 250]]);
+        assert.ok(chunks.every(chunk => chunk.symbol === undefined));
+    });
+});
@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { parseSearchScope } from '../searchScope';
+
+suite('parseSearchScope', () => {
+    test('reads repo, folder and workspace tokens', () => {
+        const scope = parseSearchScope('#repo:owner/name.git where is #folder:./src/api/ routing #workspace');
+
+        assert.strictEqual(scope.query, 'where is routing');
+        assert.deepStrictEqual(scope.filter, { repos: ['owner/name'], folders: ['src/api'], workspace: true });
+    });
+
+    test('leaves trailing punctuation out of the token', () => {
+        const scope = parseSearchScope('compare #repo:owner/name, #folder:src/v1.2; and #workspace?');
+
+        assert.strictEqual(scope.query, 'compare and');
+        assert.deepStrictEqual(scope.filter, { repos: ['owner/name'], folders: ['src/v1.2'], workspace: true });
+    });
+
+    test('ignores hashes that are not scope tokens', () => {
+        const scope = parseSearchScope('why does #workspaces fail on issue#12');
+
+        assert.strictEqual(scope.query, 'why does #workspaces fail on issue#12');
+        assert.strictEqual(scope.filter, undefined);
+    });
+});
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { LocalIndex, IndexItem, MetadataFilter, QueryResult } from 'vectra';
+import { BinaryVectorIndex } from './binaryVectorIndex';
+
+export type VectorStorage = 'binary' | 'vectra';
+export type VectorQuantization = 'none' | 'int8';
+
+export interface VectorStorageOptions {
+    storage: VectorStorage;
+    /** Only used by the binary backend. */
+    quantization: VectorQuantization;
+}
+
+/**
+ * Storage backend of one model index. Mirrors the part of vectra's
+ * `LocalIndex` API the extension relies on, so `LocalIndex` is a backend
+ * as it is. Mutations outside `beginUpdate` / `endUpdate` are saved right away.
+ */
+export interface VectorIndex {
+    isIndexCreated(): Promise<boolean>;
+    /** Creates an empty index. */
+    createIndex(): Promise<void>;
+    /** Deletes the index from disk, dropping any update in progress. */
+    deleteIndex(): Promise<void>;
+    beginUpdate(): Promise<void>;
+    endUpdate(): Promise<void>;
+    cancelUpdate(): void;
+    insertItem(item: Partial<IndexItem>): Promise<IndexItem>;
+    upsertItem(item: Partial<IndexItem>): Promise<IndexItem>;
+    deleteItem(id: string): Promise<void>;
+    getItem(id: string): Promise<IndexItem | undefined>;
+    listItems(): Promise<IndexItem[]>;
+    /** Returns the `topK` items most similar to the vector, best first. */
+    queryItems(vector: number[], topK: number, filter?: MetadataFilter): Promise<QueryResult[]>;
+}
+
+export function getVectorStorageOptions(): VectorStorageOptions {
+    const config = vscode.workspace.getConfiguration('ragPilot');
+    return {
+        storage: config.get<VectorStorage>('vectorStorage') === 'vectra' ? 'vectra' : 'binary',
+        quantization: config.get<VectorQuantization>('vectorQuantization') === 'int8' ? 'int8' : 'none'
+    };
+}
+
+/**
+ * Folder of a backend inside a model namespace. Both can exist side by side
+ * while an index is moved from one backend to the other.
+ */
+export function getVectorIndexPath(namespacePath: string, storage: VectorStorage): string {
+    return path.join(namespacePath, storage === 'vectra' ? '.rag-index' : 'vectors');
+}
+
+export function createVectorIndex(namespacePath: string, options: VectorStorageOptions): VectorIndex {
+    const indexPath = getVectorIndexPath(namespacePath, options.storage);
+    return options.storage === 'vectra'
+        ? new LocalIndex(indexPath)
+        : new BinaryVectorIndex(indexPath, options.quantization);
+}
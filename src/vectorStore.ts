@@ -1,445 +1,1805 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { LocalIndex, LocalDocument } from 'vectra';
+import { LocalIndex, LocalDocument, ItemSelector, MetadataFilter } from 'vectra';
+import { chunkDocument, chunkSections, CHUNKER_VERSION, DocumentChunk } from './chunker';
+import { EmbeddingService } from './embeddingService';
+import { ExtractionService } from './extractionService';
+import {
+    IndexPartition,
+    DocumentMetadata,
+    IndexedFileEntry,
+    IndexManifest,
+    INDEX_SCHEMA_VERSION,
+    getManifestKey,
+    parseManifestKey,
+    hashContent
+} from './indexPartition';
+import { getVectorStorageOptions, getVectorIndexPath } from './vectorIndex';
+import { Source, sourceCovers } from './sourceRegistry';
+import { FileDiscovery, DiscoveryPatterns } from './fileDiscovery';
+import { FileGuardOptions, SkipKind, getFileGuardOptions, checkFile, checkContent, checkExtractedText } from './fileGuards';
+import { DocumentSection, getDocumentExtractor } from './documentExtractors';
+
+export interface SearchResult {
+    text: string;
+    metadata: DocumentMetadata;
+    score: number;
+    vectorScore?: number;
+    keywordScore?: number;
+    rerankScore?: number;
+}
+
+/**
+ * Restricts a search to some sources. Source scopes (workspace, repos) are
+ * combined with OR, as are folder scopes; if both kinds are given a chunk
+ * must match one of each.
+ */
+export interface SearchFilter {
+    workspace?: boolean;
+    repos?: string[];
+    folders?: string[];
+}
+
+/** Rank offset for reciprocal rank fusion; 60 is the value from the original RRF paper. */
+const RRF_K = 60;
+
+/**
+ * Contents of the active index in a portable form, for sharing it between
+ * machines. Item ids are kept so the file manifest stays valid.
+ */
+export interface IndexSnapshot {
+    model: string;
+    dimensions: number;
+    schemaVersion: number;
+    items: Array<{ id: string; vector: number[]; metadata: Record<string, unknown> }>;
+    fileManifest: Record<string, IndexedFileEntry>;
+    sources?: Source[];
+    /** Workspace folders of archives exported before sources had ids. */
+    indexedFolders?: string[];
+}
+
+export interface ModelIndexInfo {
+    model: string;
+    dimensions: number;
+    createdAt: Date;
+    active: boolean;
+}
+
+export interface IndexingSummary {
+    indexed: number;
+    unchanged: number;
+    removed: number;
+    /** Files left out by the guardrails; chunks they had before are dropped. */
+    skipped: SkippedFile[];
+    /** Set when the run was cancelled before every file was processed. */
+    cancelled?: boolean;
+}
+
+export interface SkippedFile {
+    source: 'workspace' | 'github';
+    repo?: string;
+    file: string;
+    kind: SkipKind;
+    reason: string;
+}
 
-interface DocumentMetadata {
+export interface IndexedFile {
+    source: 'workspace' | 'github';
+    repo?: string;
     file: string;
-    line?: number;
-    source?: 'workspace' | 'github';
+    entry: IndexedFileEntry;
+}
+
+export interface FailedFile {
+    source: 'workspace' | 'github';
     repo?: string;
-    text?: string;
+    file: string;
+    error: string;
+    failedAt: Date;
 }
 
-export class VectorStore {
-    private index: LocalIndex | null = null;
-    private embedder: any = null;
-    private readonly indexPath: string;
-    private indexedFolders: Set<string> = new Set();
-    private readonly indexedFoldersPath: string;
+/** A changed file whose chunks wait for the next embedding batch. */
+interface PendingDocument {
+    partition: IndexPartition;
+    key: string;
+    hash: string;
+    fileMetadata: Pick<DocumentMetadata, 'file' | 'source' | 'repo' | 'ref' | 'sourceId'>;
+    chunks: DocumentChunk[];
+}
+
+export interface SourceStats {
+    files: number;
+    chunks: number;
+    /** When a file of the source was last (re-)embedded; unset if nothing is indexed. */
+    lastIndexedAt?: Date;
+}
+
+/**
+ * Embeds and searches indexed sources. Workspace files are kept in an index
+ * of their own per workspace, so projects with the same relative paths never
+ * mix; repository chunks are kept in a global index shared by all
+ * workspaces. Searches query both and merge the results.
+ */
+export class VectorStore implements vscode.Disposable {
+    private readonly embeddingService = new EmbeddingService();
+    private readonly extractionService = new ExtractionService();
+    private modelName = '';
+    private dimensions = 0;
+    private readonly storagePath: string;
+    private readonly repoPartition: IndexPartition;
+    private workspacePartition: IndexPartition;
+    private updateLock: Promise<void> = Promise.resolve();
+    private releaseUpdateLock: (() => void) | null = null;
+    private updatingPartitions: IndexPartition[] = [];
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private pendingDocuments: PendingDocument[] = [];
+    private pendingChunkCount = 0;
+    /** Files of the current update counted as indexed whose batch then failed to embed. */
+    private unembeddedFiles = 0;
+    private embeddedChunks = 0;
+    private updateStartedAt = 0;
+
+    /** Fires whenever files are embedded or removed, including during indexing. */
+    readonly onDidChangeIndex = this.changeEmitter.event;
 
     constructor(private context: vscode.ExtensionContext) {
-        this.indexPath = path.join(context.globalStorageUri.fsPath, '.rag-index');
-        this.indexedFoldersPath = path.join(context.globalStorageUri.fsPath, 'indexed-folders.json');
+        this.storagePath = context.globalStorageUri.fsPath;
+        this.repoPartition = new IndexPartition(this.storagePath);
+        this.workspacePartition = new IndexPartition(this.getWorkspaceIndexRoot());
+
+        const config = vscode.workspace.getConfiguration('ragPilot');
+        const modelName = config.get<string>('embeddingModel') || 'Xenova/bge-base-en-v1.5';
+        this.repoPartition.useModelNamespace(modelName);
+        this.workspacePartition.useModelNamespace(modelName);
     }
 
     async initialize(): Promise<void> {
         try {
-            // Dynamically import the pipeline function
-            const { pipeline } = await import('@xenova/transformers');
-            
             // Get embedding model from configuration
             const config = vscode.workspace.getConfiguration('ragPilot');
             const modelName = config.get<string>('embeddingModel') || 'Xenova/bge-base-en-v1.5';
-            
-            console.log(`Initializing embedding model: ${modelName}`);
-            
-            // Initialize the embedding model
-            this.embedder = await pipeline('feature-extraction', modelName);
-            
-            // Initialize or load existing index
-            this.index = new LocalIndex(this.indexPath);
-            
-            if (await this.index.isIndexCreated()) {
-                await this.index.beginUpdate();
-                await this.index.endUpdate();
-            } else {
-                await this.index.createIndex();
-            }
-
-            // Load indexed folders
-            await this.loadIndexedFolders();
+
+            await this.loadEmbedder(modelName);
+            await this.migrateLegacyIndex();
+            await this.repoPartition.open(modelName, this.dimensions, getVectorStorageOptions());
+            await this.workspacePartition.open(modelName, this.dimensions, getVectorStorageOptions());
+            await this.purgeSharedWorkspaceChunks();
+            await this.adoptSources(this.repoPartition);
+            await this.adoptSources(this.workspacePartition);
         } catch (error) {
             console.error('Failed to initialize vector store:', error);
-            vscode.window.showErrorMessage('Failed to initialize RAG vector store');
+            vscode.window.showErrorMessage(
+                `Failed to initialize RAG vector store: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Switches to the index namespace of another embedding model, loading the
+     * model and any index previously built with it. Indexes of other models
+     * stay on disk, so switching back does not require re-indexing.
+     */
+    async switchModel(modelName: string): Promise<void> {
+        const release = await this.acquireUpdateLock();
+        const previousModel = this.modelName;
+        try {
+            // Drop the old indexes first so nothing queries them with the new model
+            this.repoPartition.close();
+            this.workspacePartition.close();
+            try {
+                await this.loadEmbedder(modelName);
+                await this.repoPartition.open(modelName, this.dimensions, getVectorStorageOptions());
+                await this.workspacePartition.open(modelName, this.dimensions, getVectorStorageOptions());
+            } catch (error) {
+                // Go back to the previous model's indexes, so search and indexing keep working
+                if (previousModel) {
+                    await this.reopenModel(previousModel);
+                }
+                throw error;
+            }
+            await this.adoptSources(this.repoPartition);
+            await this.adoptSources(this.workspacePartition);
+        } finally {
+            release();
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * Re-opens the workspace index after `ragPilot.workspaceIndexPath` changed.
+     */
+    async reloadWorkspaceIndex(): Promise<void> {
+        const release = await this.acquireUpdateLock();
+        try {
+            this.workspacePartition.close();
+            this.workspacePartition = new IndexPartition(this.getWorkspaceIndexRoot());
+            await this.workspacePartition.open(this.modelName, this.dimensions, getVectorStorageOptions());
+            await this.adoptSources(this.workspacePartition);
+        } finally {
+            release();
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * Re-opens both indexes after `ragPilot.vectorStorage` or
+     * `ragPilot.vectorQuantization` changed; opening converts the stored vectors.
+     */
+    async reloadVectorStorage(): Promise<void> {
+        const release = await this.acquireUpdateLock();
+        try {
+            this.repoPartition.close();
+            this.workspacePartition.close();
+            await this.repoPartition.open(this.modelName, this.dimensions, getVectorStorageOptions());
+            await this.workspacePartition.open(this.modelName, this.dimensions, getVectorStorageOptions());
+        } finally {
+            release();
+            this.changeEmitter.fire();
+        }
+    }
+
+    getModelName(): string {
+        return this.modelName;
+    }
+
+    getDimensions(): number {
+        return this.dimensions;
+    }
+
+    /**
+     * Folder holding this workspace's index: `ragPilot.workspaceIndexPath`
+     * (relative paths resolve against the first workspace folder), else the
+     * extension's workspace storage.
+     */
+    getWorkspaceIndexRoot(): string {
+        const configured = vscode.workspace.getConfiguration('ragPilot').get<string>('workspaceIndexPath')?.trim();
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+        if (configured) {
+            if (path.isAbsolute(configured) || !workspaceRoot) {
+                return path.resolve(configured);
+            }
+            return path.join(workspaceRoot, configured);
+        }
+
+        // Without an open workspace there is no workspace storage
+        return this.context.storageUri?.fsPath ?? path.join(this.storagePath, 'no-workspace');
+    }
+
+    /**
+     * Returns true if anything has been indexed with the active model.
+     */
+    hasIndexedContent(): boolean {
+        return this.repoPartition.hasContent() || this.workspacePartition.hasContent();
+    }
+
+    async listModelIndexes(): Promise<ModelIndexInfo[]> {
+        const indexes: ModelIndexInfo[] = [];
+
+        try {
+            const entries = await fs.readdir(this.repoPartition.indexesPath, { withFileTypes: true });
+            for (const entry of entries) {
+                if (!entry.isDirectory()) {
+                    continue;
+                }
+                try {
+                    const data = await fs.readFile(path.join(this.repoPartition.indexesPath, entry.name, 'index-manifest.json'), 'utf-8');
+                    const manifest: IndexManifest = JSON.parse(data);
+                    indexes.push({
+                        model: manifest.model,
+                        dimensions: manifest.dimensions,
+                        createdAt: new Date(manifest.createdAt),
+                        active: manifest.model === this.modelName
+                    });
+                } catch (error) {
+                    // Not a model index (or an unreadable one), skip it
+                }
+            }
+        } catch (error) {
+            // No model indexes yet
         }
+
+        return indexes;
     }
 
+    /**
+     * Returns true once either partition holds indexed files; an index folder
+     * with nothing in it counts as no index.
+     */
     async hasIndex(): Promise<boolean> {
-        return this.index !== null && await this.index.isIndexCreated();
+        return this.workspacePartition.hasContent() || this.repoPartition.hasContent();
     }
 
     async indexWorkspace(
         progress: vscode.Progress<{ message?: string; increment?: number }>,
         token: vscode.CancellationToken,
         specificFolder?: vscode.Uri
-    ): Promise<void> {
-        if (!this.index || !this.embedder) {
+    ): Promise<IndexingSummary> {
+        if (!this.workspacePartition.index || !this.modelName) {
             throw new Error('Vector store not initialized');
         }
 
-        await this.index.beginUpdate();
+        const folderPath = specificFolder ? vscode.workspace.asRelativePath(specificFolder) : '';
+        const source = this.workspacePartition.sources.ensure(specificFolder ? 'folder' : 'workspace', folderPath);
+        await this.workspacePartition.sources.save();
 
-        // Get patterns from configuration
-        const config = vscode.workspace.getConfiguration('ragPilot');
-        const includePatterns = config.get<string[]>('includePatterns') || ['**/*.{ts,js,py,java,cpp,c,h,cs,go,rs,md,txt,json}'];
-        const excludePatterns = config.get<string[]>('excludePatterns') || ['**/node_modules/**'];
-
-        // Build glob pattern
-        const includePattern = includePatterns.length === 1 ? includePatterns[0] : `{${includePatterns.join(',')}}`;
-        const excludePattern = excludePatterns.length === 1 ? excludePatterns[0] : `{${excludePatterns.join(',')}}`;
+        await this.beginIndexUpdate(this.workspacePartition);
 
-        // Find files in the specific folder or entire workspace
-        const searchPattern = specificFolder 
-            ? new vscode.RelativePattern(specificFolder, includePattern)
-            : includePattern;
+        const summary: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+        try {
+            // Find files in the specific folder or in every workspace folder
+            const roots = specificFolder
+                ? [specificFolder]
+                : (vscode.workspace.workspaceFolders || []).map(folder => folder.uri);
+            const files: vscode.Uri[] = [];
+            for (const root of roots) {
+                // Ignore files from the workspace folder down apply to a folder inside it
+                const topPath = vscode.workspace.getWorkspaceFolder(root)?.uri.fsPath ?? root.fsPath;
+                const discovery = new FileDiscovery(topPath, this.getSourcePatterns(source));
+                for (const filePath of await discovery.findFiles(root.fsPath)) {
+                    files.push(vscode.Uri.file(filePath));
+                }
+            }
 
-        const files = await vscode.workspace.findFiles(
-            searchPattern,
-            excludePattern
-        );
+            const totalFiles = files.length;
+            const seenKeys = new Set<string>();
+            const guards = getFileGuardOptions();
 
-        const totalFiles = files.length;
-        let processedFiles = 0;
+            for (const file of files) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
 
-        for (const file of files) {
-            if (token.isCancellationRequested) {
-                break;
-            }
+                const relativePath = vscode.workspace.asRelativePath(file);
+                // Files that fail keep their previous chunks instead of being purged
+                seenKeys.add(getManifestKey({ file: relativePath, source: 'workspace' }));
+                const fileName = specificFolder
+                    ? path.relative(specificFolder.fsPath, file.fsPath)
+                    : relativePath;
+
+                try {
+                    const content = await this.readGuardedFile(
+                        { file: relativePath, source: 'workspace' },
+                        file.fsPath,
+                        async () => (await vscode.workspace.openTextDocument(file)).getText(),
+                        guards,
+                        summary
+                    );
+                    if (content === undefined) {
+                        progress.report({ message: `Skipped ${fileName}`, increment: 100 / totalFiles });
+                        continue;
+                    }
+
+                    const changed = await this.indexDocument(content, {
+                        file: relativePath,
+                        source: 'workspace'
+                    });
+                    summary[changed ? 'indexed' : 'unchanged']++;
 
-            try {
-                const document = await vscode.workspace.openTextDocument(file);
-                const text = document.getText();
-
-                // Split document into chunks (simple approach: by lines)
-                const chunks = this.chunkDocument(text, 100, 20);
-                
-                for (const chunk of chunks) {
-                    const embedding = await this.createEmbedding(chunk.text);
-                    
-                    await this.index.insertItem({
-                        vector: embedding,
-                        metadata: {
-                            file: vscode.workspace.asRelativePath(file),
-                            line: chunk.startLine,
-                            source: 'workspace',
-                            text: chunk.text
-                        } as any
+                    progress.report({
+                        message: `${changed ? 'Indexing' : 'Unchanged'} ${fileName}${this.describeThroughput()}`,
+                        increment: (100 / totalFiles)
                     });
-                }
 
-                processedFiles++;
-                const fileName = specificFolder 
-                    ? path.relative(specificFolder.fsPath, file.fsPath)
-                    : vscode.workspace.asRelativePath(file);
-                progress.report({
-                    message: `Indexing ${fileName}`,
-                    increment: (100 / totalFiles)
-                });
+                } catch (error) {
+                    console.error(`Failed to index file ${file.fsPath}:`, error);
+                    this.recordFailure({ file: relativePath, source: 'workspace' }, error);
+                }
+            }
 
-            } catch (error) {
-                console.error(`Failed to index file ${file.fsPath}:`, error);
+            // Drop chunks for files that no longer exist under the indexed scope.
+            // Skipped on cancellation, since unseen files may simply not have been reached.
+            if (!token.isCancellationRequested) {
+                const scopePrefix = specificFolder
+                    ? getManifestKey({ file: `${folderPath}/`, source: 'workspace' })
+                    : getManifestKey({ file: '', source: 'workspace' });
+                // Files of nested sources may follow other patterns; those sources purge them
+                const keep = new Set(seenKeys);
+                for (const [key, entry] of this.workspacePartition.fileManifest.entries()) {
+                    if (entry.sourceId !== source.id) {
+                        keep.add(key);
+                    }
+                }
+                summary.removed = await this.workspacePartition.purgeFiles(scopePrefix, keep);
             }
+        } finally {
+            await this.endIndexUpdate(summary);
         }
+        if (token.isCancellationRequested) {
+            summary.cancelled = true;
+        }
+        await this.workspacePartition.saveFileManifest();
+        await this.saveSourceStats(this.workspacePartition, [source]);
 
-        await this.index.endUpdate();
-
-        // Track indexed folder
-        const folderPath = specificFolder 
-            ? vscode.workspace.asRelativePath(specificFolder)
-            : 'Entire Workspace';
-        this.indexedFolders.add(folderPath);
-        await this.saveIndexedFolders();
+        return summary;
     }
 
     async indexFiles(
         files: vscode.Uri[],
         progress: vscode.Progress<{ message?: string; increment?: number }>,
         token: vscode.CancellationToken
-    ): Promise<void> {
-        if (!this.index || !this.embedder) {
+    ): Promise<IndexingSummary> {
+        if (!this.workspacePartition.index || !this.modelName) {
             throw new Error('Vector store not initialized');
         }
 
-        await this.index.beginUpdate();
+        // Each picked file becomes a source of its own
+        const sources = files.map(file => this.workspacePartition.sources.ensure('file', vscode.workspace.asRelativePath(file)));
+        await this.workspacePartition.sources.save();
 
-        const totalFiles = files.length;
-        let processedFiles = 0;
+        await this.beginIndexUpdate(this.workspacePartition);
 
-        for (const file of files) {
-            if (token.isCancellationRequested) {
-                break;
-            }
+        const summary: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+        try {
+            const totalFiles = files.length;
+            const guards = getFileGuardOptions();
 
-            try {
-                const document = await vscode.workspace.openTextDocument(file);
-                const text = document.getText();
-
-                const chunks = this.chunkDocument(text, 100, 20);
-                
-                for (const chunk of chunks) {
-                    const embedding = await this.createEmbedding(chunk.text);
-                    
-                    await this.index.insertItem({
-                        vector: embedding,
-                        metadata: {
-                            file: vscode.workspace.asRelativePath(file),
-                            line: chunk.startLine,
-                            source: 'workspace',
-                            text: chunk.text
-                        } as any
-                    });
+            for (const file of files) {
+                if (token.isCancellationRequested) {
+                    break;
                 }
 
-                processedFiles++;
                 const fileName = vscode.workspace.asRelativePath(file);
-                progress.report({
-                    message: `Indexing ${fileName}`,
-                    increment: (100 / totalFiles)
-                });
 
-                this.indexedFolders.add(fileName);
+                try {
+                    const content = await this.readGuardedFile(
+                        { file: fileName, source: 'workspace' },
+                        file.fsPath,
+                        async () => (await vscode.workspace.openTextDocument(file)).getText(),
+                        guards,
+                        summary
+                    );
+                    if (content === undefined) {
+                        progress.report({ message: `Skipped ${fileName}`, increment: 100 / totalFiles });
+                        continue;
+                    }
+
+                    const changed = await this.indexDocument(content, {
+                        file: fileName,
+                        source: 'workspace'
+                    });
+                    summary[changed ? 'indexed' : 'unchanged']++;
 
-            } catch (error) {
-                console.error(`Failed to index file ${file.fsPath}:`, error);
+                    progress.report({
+                        message: `${changed ? 'Indexing' : 'Unchanged'} ${fileName}${this.describeThroughput()}`,
+                        increment: (100 / totalFiles)
+                    });
+
+                } catch (error) {
+                    console.error(`Failed to index file ${file.fsPath}:`, error);
+                    this.recordFailure({ file: fileName, source: 'workspace' }, error);
+                }
             }
+        } finally {
+            await this.endIndexUpdate(summary);
+        }
+        if (token.isCancellationRequested) {
+            summary.cancelled = true;
         }
+        await this.workspacePartition.saveFileManifest();
+        await this.saveSourceStats(this.workspacePartition, sources);
 
-        await this.index.endUpdate();
-        await this.saveIndexedFolders();
+        return summary;
     }
 
     async indexGitHubRepo(
         repoKey: string,
         repoPath: string,
         progress: vscode.Progress<{ message?: string; increment?: number }>,
-        token: vscode.CancellationToken
-    ): Promise<void> {
-        if (!this.index || !this.embedder) {
+        token: vscode.CancellationToken,
+        ref?: string
+    ): Promise<IndexingSummary> {
+        if (!this.repoPartition.index || !this.modelName) {
+            throw new Error('Vector store not initialized');
+        }
+
+        const source = this.repoPartition.sources.ensure('repo', repoKey);
+        await this.repoPartition.sources.save();
+
+        await this.beginIndexUpdate(this.repoPartition);
+
+        const summary: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+        try {
+            const files = await new FileDiscovery(repoPath, this.getSourcePatterns(source)).findFiles();
+            const totalFiles = files.length;
+            const seenKeys = new Set<string>();
+            const guards = getFileGuardOptions();
+
+            for (const filePath of files) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                const relativePath = path.relative(repoPath, filePath);
+                // Files that fail keep their previous chunks instead of being purged
+                seenKeys.add(getManifestKey({ file: relativePath, source: 'github', repo: repoKey }));
+
+                try {
+                    const content = await this.readGuardedFile(
+                        { file: relativePath, source: 'github', repo: repoKey },
+                        filePath,
+                        () => fs.readFile(filePath, 'utf-8'),
+                        guards,
+                        summary
+                    );
+                    if (content === undefined) {
+                        progress.report({ message: `Skipped ${relativePath}`, increment: 100 / totalFiles });
+                        continue;
+                    }
+
+                    const changed = await this.indexDocument(content, {
+                        file: relativePath,
+                        source: 'github',
+                        repo: repoKey,
+                        ...(ref ? { ref } : {})
+                    });
+                    summary[changed ? 'indexed' : 'unchanged']++;
+
+                    progress.report({
+                        message: `${changed ? 'Indexing' : 'Unchanged'} ${relativePath}${this.describeThroughput()}`,
+                        increment: (100 / totalFiles)
+                    });
+
+                } catch (error) {
+                    console.error(`Failed to index file ${filePath}:`, error);
+                    this.recordFailure({ file: relativePath, source: 'github', repo: repoKey }, error);
+                }
+            }
+
+            // Drop chunks for files deleted from the repository since the last index
+            if (!token.isCancellationRequested) {
+                const repoPrefix = getManifestKey({ file: '', source: 'github', repo: repoKey });
+                summary.removed = await this.repoPartition.purgeFiles(repoPrefix, seenKeys);
+            }
+        } finally {
+            await this.endIndexUpdate(summary);
+        }
+        if (token.isCancellationRequested) {
+            summary.cancelled = true;
+        }
+        await this.repoPartition.saveFileManifest();
+        await this.saveSourceStats(this.repoPartition, [source]);
+
+        return summary;
+    }
+
+    /**
+     * Whether the active index holds chunks of the repository; false e.g.
+     * after switching to an embedding model it was never indexed with.
+     */
+    hasRepoContent(repoKey: string): boolean {
+        const repoPrefix = getManifestKey({ file: '', source: 'github', repo: repoKey });
+        return Array.from(this.repoPartition.fileManifest.keys()).some(key => key.startsWith(repoPrefix));
+    }
+
+    /**
+     * Re-embeds the given files of a cloned repository and purges deleted
+     * ones, e.g. from a git diff between the indexed and the new commit.
+     * Paths are relative to the repository root.
+     */
+    async updateRepoFiles(
+        repoKey: string,
+        repoPath: string,
+        changed: string[],
+        deleted: string[],
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken,
+        ref?: string
+    ): Promise<IndexingSummary> {
+        if (!this.repoPartition.index || !this.modelName) {
             throw new Error('Vector store not initialized');
         }
 
-        await this.index.beginUpdate();
+        const source = this.repoPartition.sources.ensure('repo', repoKey);
+        await this.repoPartition.sources.save();
 
-        const files = await this.getFilesInDirectory(repoPath);
-        const totalFiles = files.length;
-        let processedFiles = 0;
+        await this.beginIndexUpdate(this.repoPartition);
 
-        for (const filePath of files) {
-            if (token.isCancellationRequested) {
-                break;
+        const summary: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+        try {
+            const discovery = new FileDiscovery(repoPath, this.getSourcePatterns(source));
+
+            for (const file of deleted) {
+                const key = getManifestKey({ file: path.relative(repoPath, path.join(repoPath, file)), source: 'github', repo: repoKey });
+                if (await this.repoPartition.removeFile(key)) {
+                    summary.removed++;
+                }
             }
 
-            try {
-                const text = await fs.readFile(filePath, 'utf-8');
+            const guards = getFileGuardOptions();
+
+            for (const file of changed) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                const filePath = path.join(repoPath, file);
                 const relativePath = path.relative(repoPath, filePath);
+                if (!await discovery.accepts(filePath)) {
+                    continue;
+                }
 
-                // Split document into chunks
-                const chunks = this.chunkDocument(text, 100, 20);
-                
-                for (const chunk of chunks) {
-                    const embedding = await this.createEmbedding(chunk.text);
-                    
-                    await this.index.insertItem({
-                        vector: embedding,
-                        metadata: {
-                            file: relativePath,
-                            line: chunk.startLine,
-                            source: 'github',
-                            repo: repoKey,
-                            text: chunk.text
-                        } as any
+                try {
+                    const content = await this.readGuardedFile(
+                        { file: relativePath, source: 'github', repo: repoKey },
+                        filePath,
+                        () => fs.readFile(filePath, 'utf-8'),
+                        guards,
+                        summary
+                    );
+                    if (content === undefined) {
+                        continue;
+                    }
+
+                    const changedFile = await this.indexDocument(content, {
+                        file: relativePath,
+                        source: 'github',
+                        repo: repoKey,
+                        ...(ref ? { ref } : {})
                     });
+                    summary[changedFile ? 'indexed' : 'unchanged']++;
+
+                    progress.report({
+                        message: `${changedFile ? 'Indexing' : 'Unchanged'} ${relativePath}${this.describeThroughput()}`,
+                        increment: 100 / changed.length
+                    });
+                } catch (error) {
+                    console.error(`Failed to re-index file ${filePath}:`, error);
+                    this.recordFailure({ file: relativePath, source: 'github', repo: repoKey }, error);
                 }
+            }
 
-                processedFiles++;
-                progress.report({
-                    message: `Indexing ${relativePath}`,
-                    increment: (100 / totalFiles)
-                });
+            // Files outside the diff keep their chunks but now belong to the new ref
+            const repoPrefix = getManifestKey({ file: '', source: 'github', repo: repoKey });
+            for (const [key, entry] of this.repoPartition.fileManifest.entries()) {
+                if (key.startsWith(repoPrefix) && entry.ref !== ref) {
+                    await this.relabelChunks(this.repoPartition, entry, { ref });
+                }
+            }
+        } finally {
+            await this.endIndexUpdate(summary);
+        }
+        if (token.isCancellationRequested) {
+            summary.cancelled = true;
+        }
+        await this.repoPartition.saveFileManifest();
+        await this.saveSourceStats(this.repoPartition, [source]);
 
-            } catch (error) {
-                console.error(`Failed to index file ${filePath}:`, error);
+        return summary;
+    }
+
+    /**
+     * Re-embeds changed workspace files and purges deleted ones (or deleted
+     * folders) without rescanning the rest of the workspace.
+     */
+    async updateWorkspaceFiles(changed: vscode.Uri[], deleted: vscode.Uri[]): Promise<IndexingSummary> {
+        if (!this.workspacePartition.index || !this.modelName) {
+            throw new Error('Vector store not initialized');
+        }
+
+        await this.beginIndexUpdate(this.workspacePartition);
+
+        const summary: IndexingSummary = { indexed: 0, unchanged: 0, removed: 0, skipped: [] };
+        try {
+            for (const uri of deleted) {
+                const prefix = getManifestKey({ file: vscode.workspace.asRelativePath(uri), source: 'workspace' });
+                for (const key of Array.from(this.workspacePartition.failedFiles.keys())) {
+                    if (key === prefix || key.startsWith(`${prefix}/`)) {
+                        this.workspacePartition.failedFiles.delete(key);
+                    }
+                }
+                const fileManifest = this.workspacePartition.fileManifest;
+                for (const [key, entry] of Array.from(fileManifest.entries())) {
+                    if (key !== prefix && !key.startsWith(`${prefix}/`)) {
+                        continue;
+                    }
+                    for (const id of entry.itemIds) {
+                        await this.workspacePartition.deleteItem(id);
+                    }
+                    fileManifest.delete(key);
+                    summary.removed++;
+                }
             }
+
+            const guards = getFileGuardOptions();
+            for (const uri of changed) {
+                try {
+                    const content = await this.readGuardedFile(
+                        { file: vscode.workspace.asRelativePath(uri), source: 'workspace' },
+                        uri.fsPath,
+                        async () => (await vscode.workspace.openTextDocument(uri)).getText(),
+                        guards,
+                        summary
+                    );
+                    if (content === undefined) {
+                        continue;
+                    }
+
+                    const changedFile = await this.indexDocument(content, {
+                        file: vscode.workspace.asRelativePath(uri),
+                        source: 'workspace'
+                    });
+                    summary[changedFile ? 'indexed' : 'unchanged']++;
+                } catch (error) {
+                    console.error(`Failed to re-index file ${uri.fsPath}:`, error);
+                    this.recordFailure({ file: vscode.workspace.asRelativePath(uri), source: 'workspace' }, error);
+                }
+            }
+        } finally {
+            await this.endIndexUpdate(summary);
+        }
+        await this.workspacePartition.saveFileManifest();
+
+        return summary;
+    }
+
+    /**
+     * Returns true if a workspace-relative path is an indexed folder or file,
+     * or falls under one.
+     */
+    isIndexedWorkspacePath(relativePath: string): boolean {
+        const file = { file: relativePath, source: 'workspace' as const };
+        return this.workspacePartition.sources.list().some(source =>
+            sourceCovers(source, file) || (source.kind === 'folder' && source.root === relativePath)
+        );
+    }
+
+    /**
+     * Returns true if a created or changed workspace file should be indexed:
+     * it falls under an indexed source and would be found by indexing that
+     * source again.
+     */
+    async acceptsWorkspaceFile(uri: vscode.Uri): Promise<boolean> {
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        const owner = this.workspacePartition.sources.findOwner({ file: relativePath, source: 'workspace' });
+        if (!owner) {
+            return false;
+        }
+        if (owner.kind === 'file') {
+            return true;
+        }
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!workspaceFolder) {
+            return false;
         }
 
-        await this.index.endUpdate();
+        // Folder patterns are relative to the folder, as when it is indexed
+        let sourcePath = workspaceFolder.uri.fsPath;
+        if (owner.kind === 'folder') {
+            const depth = relativePath.slice(owner.root.length + 1).split('/').length;
+            sourcePath = path.resolve(uri.fsPath, ...Array<string>(depth).fill('..'));
+        }
+        return await new FileDiscovery(workspaceFolder.uri.fsPath, this.getSourcePatterns(owner)).accepts(uri.fsPath, sourcePath);
+    }
+
+    /**
+     * Globs selecting a source's files: its own patterns if it has any, else
+     * `ragPilot.includePatterns` and `ragPilot.excludePatterns`.
+     */
+    getSourcePatterns(source?: Source): DiscoveryPatterns {
+        const config = vscode.workspace.getConfiguration('ragPilot');
+        return {
+            include: source?.include?.length
+                ? source.include
+                : config.get<string[]>('includePatterns') || ['**/*.{ts,js,py,java,cpp,c,h,cs,go,rs,md,txt,json}'],
+            exclude: source?.exclude?.length
+                ? source.exclude
+                : config.get<string[]>('excludePatterns') || ['**/node_modules/**']
+        };
     }
 
     async removeRepoFromIndex(repoKey: string): Promise<void> {
-        if (!this.index) {
-            return;
+        const source = this.repoPartition.sources.find('repo', repoKey);
+        if (source) {
+            await this.removeSource(source.id);
         }
+    }
 
-        await this.index.beginUpdate();
-        
-        // Get all items and filter out the repo's items
-        const allItems = await this.index.listItems();
-        const itemsToKeep = allItems.filter(item => {
-            const metadata = item.metadata as any;
-            return metadata.source !== 'github' || metadata.repo !== repoKey;
-        });
-        
-        // Rebuild index
-        await this.index.deleteIndex();
-        await this.index.createIndex();
-
-        // Add back items (without IDs to avoid conflicts)
-        for (const item of itemsToKeep) {
-            await this.index.insertItem({
-                vector: item.vector,
-                metadata: item.metadata
-            });
+    /**
+     * Removes a source from the registry. Its files stay indexed if another
+     * source covers them, e.g. a folder inside the indexed workspace, and
+     * then belong to that source; all other files are dropped from the index.
+     */
+    async removeSource(id: string): Promise<void> {
+        const partition = [this.workspacePartition, this.repoPartition].find(candidate => candidate.sources.get(id));
+        const source = partition?.sources.get(id);
+        if (!partition?.index || !source) {
+            return;
         }
 
-        await this.index.endUpdate();
+        // The manifest knows the source's item ids, so only those are touched
+        await this.beginIndexUpdate(partition);
+        try {
+            for (const [key, entry] of Array.from(partition.fileManifest.entries())) {
+                if (entry.sourceId !== id) {
+                    continue;
+                }
+                const owner = partition.sources.findOwner(parseManifestKey(key), id);
+                if (owner) {
+                    await this.relabelChunks(partition, entry, { sourceId: owner.id });
+                    continue;
+                }
+                for (const itemId of entry.itemIds) {
+                    await partition.deleteItem(itemId);
+                }
+                partition.fileManifest.delete(key);
+            }
+
+            for (const key of Array.from(partition.failedFiles.keys())) {
+                const file = parseManifestKey(key);
+                if (sourceCovers(source, file) && !partition.sources.findOwner(file, id)) {
+                    partition.failedFiles.delete(key);
+                }
+            }
+
+            partition.sources.delete(id);
+        } finally {
+            await this.endIndexUpdate();
+        }
+        await partition.saveFileManifest();
+        await partition.sources.save();
     }
 
-    async removeFolderFromIndex(folderPath: string): Promise<void> {
-        if (!this.index) {
+    /**
+     * Re-labels a repository's chunks and manifest entries with a new key,
+     * keeping their embeddings.
+     */
+    async renameRepo(oldKey: string, newKey: string): Promise<void> {
+        if (!this.repoPartition.index) {
             return;
         }
 
-        await this.index.beginUpdate();
-        
-        // Get all items and filter out items from this folder
-        const allItems = await this.index.listItems();
-        const itemsToKeep = allItems.filter(item => {
-            const metadata = item.metadata as any;
-            // Keep items that don't have a file path or don't start with the folder path
-            return !metadata.file || !metadata.file.startsWith(folderPath);
+        await this.beginIndexUpdate(this.repoPartition);
+        try {
+            const allItems = await this.repoPartition.index.listItems();
+            for (const item of allItems) {
+                const metadata = item.metadata as any;
+                if (metadata.source === 'github' && metadata.repo === oldKey) {
+                    await this.repoPartition.index.upsertItem({ id: item.id, vector: item.vector, metadata: { ...metadata, repo: newKey } });
+                }
+            }
+        } finally {
+            await this.endIndexUpdate();
+        }
+
+        const source = this.repoPartition.sources.find('repo', oldKey);
+        if (source) {
+            source.root = newKey;
+            await this.repoPartition.sources.save();
+        }
+
+        const fileManifest = this.repoPartition.fileManifest;
+        const oldPrefix = getManifestKey({ file: '', source: 'github', repo: oldKey });
+        const newPrefix = getManifestKey({ file: '', source: 'github', repo: newKey });
+        for (const [key, entry] of Array.from(fileManifest.entries())) {
+            if (key.startsWith(oldPrefix)) {
+                fileManifest.delete(key);
+                fileManifest.set(newPrefix + key.slice(oldPrefix.length), entry);
+            }
+        }
+        await this.repoPartition.saveFileManifest();
+    }
+
+    async search(query: string, topK: number = 5, filter?: SearchFilter): Promise<SearchResult[]> {
+        if (!this.repoPartition.index || !this.workspacePartition.index || !this.modelName) {
+            return [];
+        }
+
+        if (this.repoPartition.manifest?.model !== this.modelName) {
+            throw new Error(
+                `The index was built with ${this.repoPartition.manifest?.model ?? 'an unknown model'} and cannot be queried with ${this.modelName}`
+            );
+        }
+
+        // 0 = pure vector similarity, 1 = pure keyword matching
+        const config = vscode.workspace.getConfiguration('ragPilot');
+        const keywordWeight = Math.min(1, Math.max(0, config.get<number>('hybridSearchWeight') ?? 0.3));
+
+        // Source scopes decide which of the two indexes can match at all
+        const hasSourceScope = !!filter && (!!filter.workspace || (filter.repos?.length ?? 0) > 0);
+        const partitions: Array<{ partition: IndexPartition; filter?: MetadataFilter }> = [];
+        if (!hasSourceScope || filter!.workspace) {
+            partitions.push({ partition: this.workspacePartition, filter: filter && this.buildMetadataFilter(filter, this.workspacePartition) });
+        }
+        if (!hasSourceScope || (filter!.repos?.length ?? 0) > 0) {
+            partitions.push({ partition: this.repoPartition, filter: filter && this.buildMetadataFilter(filter, this.repoPartition) });
+        }
+
+        const queryEmbedding = await this.createEmbedding(query);
+        const lexicalSize = partitions.reduce((sum, { partition }) => sum + partition.lexicalIndex.size, 0);
+
+        if (keywordWeight === 0 || lexicalSize === 0) {
+            const results = await this.queryVectors(partitions, queryEmbedding, topK);
+            return results.map(result => ({
+                text: result.metadata.text || '',
+                metadata: result.metadata,
+                score: result.score,
+                vectorScore: result.score
+            }));
+        }
+
+        // Retrieve a wider candidate set from both rankings and fuse them with
+        // weighted reciprocal rank fusion, which needs no score normalisation
+        const candidateCount = Math.max(topK * 4, 20);
+        const vectorResults = keywordWeight < 1
+            ? await this.queryVectors(partitions, queryEmbedding, candidateCount)
+            : [];
+        const keywordResults = await this.queryKeywords(partitions, query, candidateCount);
+
+        const fused = new Map<string, SearchResult & { id: string }>();
+
+        vectorResults.forEach((result, rank) => {
+            fused.set(result.id, {
+                id: result.id,
+                text: result.metadata.text || '',
+                metadata: result.metadata,
+                score: (1 - keywordWeight) / (RRF_K + rank + 1),
+                vectorScore: result.score
+            });
         });
-        
-        // Rebuild index
-        await this.index.deleteIndex();
-        await this.index.createIndex();
-
-        // Add back items (without IDs to avoid conflicts)
-        for (const item of itemsToKeep) {
-            await this.index.insertItem({
-                vector: item.vector,
-                metadata: item.metadata
+
+        keywordResults.forEach((result, rank) => {
+            const existing = fused.get(result.id);
+            if (existing) {
+                existing.score += keywordWeight / (RRF_K + rank + 1);
+                existing.keywordScore = result.score;
+                return;
+            }
+
+            fused.set(result.id, {
+                id: result.id,
+                text: result.metadata.text || '',
+                metadata: result.metadata,
+                score: keywordWeight / (RRF_K + rank + 1),
+                keywordScore: result.score
             });
-        }
+        });
 
-        await this.index.endUpdate();
-        
-        // Remove from indexed folders set
-        this.indexedFolders.delete(folderPath);
-        await this.saveIndexedFolders();
+        return Array.from(fused.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK)
+            .map(({ id, ...result }) => result);
     }
 
-    private async getFilesInDirectory(dir: string): Promise<string[]> {
-        const files: string[] = [];
-        const entries = await fs.readdir(dir, { withFileTypes: true });
+    /**
+     * Queries each index and merges the hits by cosine similarity, which is
+     * comparable across indexes built with the same model.
+     */
+    private async queryVectors(
+        partitions: Array<{ partition: IndexPartition; filter?: MetadataFilter }>,
+        vector: number[],
+        topK: number
+    ): Promise<Array<{ id: string; score: number; metadata: DocumentMetadata }>> {
+        const results: Array<{ id: string; score: number; metadata: DocumentMetadata }> = [];
+        for (const { partition, filter } of partitions) {
+            const hits = await partition.index!.queryItems(vector, topK, filter);
+            results.push(...hits.map(hit => ({
+                id: hit.item.id,
+                score: hit.score,
+                metadata: hit.item.metadata as any as DocumentMetadata
+            })));
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
 
-        for (const entry of entries) {
-            if (entry.name === '.git' || entry.name === 'node_modules') {
-                continue;
+    private async queryKeywords(
+        partitions: Array<{ partition: IndexPartition; filter?: MetadataFilter }>,
+        query: string,
+        topK: number
+    ): Promise<Array<{ id: string; score: number; metadata: DocumentMetadata }>> {
+        const results: Array<{ id: string; score: number; metadata: DocumentMetadata }> = [];
+        for (const { partition, filter } of partitions) {
+            // The keyword index has no metadata, so scoped searches filter its hits
+            // afterwards and fetch more of them to make up for the ones dropped
+            const hits = partition.lexicalIndex.search(query, filter ? topK * 5 : topK);
+            let kept = 0;
+            for (const hit of hits) {
+                const item = await partition.index!.getItem(hit.id);
+                if (item && (!filter || ItemSelector.select(item.metadata, filter))) {
+                    results.push({ ...hit, metadata: item.metadata as any as DocumentMetadata });
+                    kept++;
+                }
+                if (kept >= topK) {
+                    break;
+                }
             }
+        }
+        return results.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
 
-            const fullPath = path.join(dir, entry.name);
+    /**
+     * Translates a search scope into a vectra metadata filter for one index.
+     * Repository scopes are resolved to source ids, folder scopes to the
+     * indexed files under them, since vectra filters cannot match path prefixes.
+     * The binary backend looks these `$in` lists up in a set.
+     */
+    private buildMetadataFilter(filter: SearchFilter, partition: IndexPartition): MetadataFilter {
+        const clauses: MetadataFilter[] = [];
+
+        const sourceClauses: MetadataFilter[] = [];
+        if (filter.workspace) {
+            sourceClauses.push({ source: { $eq: 'workspace' } });
+        }
+        if (filter.repos && filter.repos.length > 0) {
+            // Repos are keyed by host/owner/name; a scope may leave out the host
+            const sourceIds = partition.sources.list()
+                .filter(source => source.kind === 'repo' &&
+                    filter.repos!.some(repo => source.root === repo || source.root.endsWith(`/${repo}`)))
+                .map(source => source.id);
+            sourceClauses.push({ sourceId: { $in: sourceIds } });
+        }
+        if (sourceClauses.length > 0) {
+            clauses.push({ $or: sourceClauses });
+        }
 
-            if (entry.isDirectory()) {
-                const subFiles = await this.getFilesInDirectory(fullPath);
-                files.push(...subFiles);
-            } else if (this.isIndexableFile(entry.name)) {
-                files.push(fullPath);
+        if (filter.folders && filter.folders.length > 0) {
+            const files = new Set<string>();
+            for (const key of partition.fileManifest.keys()) {
+                const { file } = parseManifestKey(key);
+                if (filter.folders.some(folder => file === folder || file.startsWith(`${folder}/`))) {
+                    files.add(file);
+                }
             }
+            clauses.push({ file: { $in: Array.from(files) } });
         }
 
-        return files;
+        return { $and: clauses };
     }
 
-    private isIndexableFile(filename: string): boolean {
-        const indexableExtensions = [
-            '.ts', '.js', '.tsx', '.jsx',
-            '.py', '.java', '.cpp', '.c', '.h', '.cs',
-            '.go', '.rs', '.rb', '.php', '.swift',
-            '.md', '.txt', '.json', '.yaml', '.yml'
-        ];
+    /**
+     * Exports the workspace and repository indexes as one snapshot; manifest
+     * keys tell the two apart on import.
+     */
+    async exportSnapshot(): Promise<IndexSnapshot> {
+        const manifest = this.repoPartition.manifest;
+        if (!this.repoPartition.index || !this.workspacePartition.index || !manifest) {
+            throw new Error('Vector store not initialized');
+        }
 
-        return indexableExtensions.some(ext => filename.endsWith(ext));
+        // Hold the update lock so the snapshot is not taken mid-indexing
+        const release = await this.acquireUpdateLock();
+        try {
+            const items = [
+                ...await this.workspacePartition.index.listItems(),
+                ...await this.repoPartition.index.listItems()
+            ];
+            return {
+                model: manifest.model,
+                dimensions: manifest.dimensions,
+                schemaVersion: manifest.schemaVersion,
+                items: items.map(item => ({ id: item.id, vector: item.vector, metadata: item.metadata as Record<string, unknown> })),
+                fileManifest: {
+                    ...Object.fromEntries(this.workspacePartition.fileManifest),
+                    ...Object.fromEntries(this.repoPartition.fileManifest)
+                },
+                sources: [...this.workspacePartition.sources.list(), ...this.repoPartition.sources.list()]
+            };
+        } finally {
+            release();
+        }
     }
 
-    async search(query: string, topK: number = 5): Promise<Array<{ text: string; metadata: DocumentMetadata; score: number }>> {
-        if (!this.index || !this.embedder) {
-            return [];
+    /**
+     * Loads a snapshot into the active indexes. When merging, files from the
+     * snapshot replace the same files in the index and everything else is
+     * kept; otherwise the indexes are replaced. Returns the number of files imported.
+     */
+    async importSnapshot(snapshot: IndexSnapshot, merge: boolean): Promise<number> {
+        const manifest = this.repoPartition.manifest;
+        if (!this.repoPartition.index || !this.workspacePartition.index || !manifest) {
+            throw new Error('Vector store not initialized');
+        }
+        if (snapshot.model !== manifest.model || snapshot.dimensions !== manifest.dimensions) {
+            throw new Error(
+                `The archive was built with ${snapshot.model} (${snapshot.dimensions} dimensions), ` +
+                `but the active index uses ${manifest.model}. Switch ragPilot.embeddingModel to ${snapshot.model} and import again.`
+            );
+        }
+        if (snapshot.schemaVersion > INDEX_SCHEMA_VERSION) {
+            throw new Error('The archive was created by a newer version of RAG Pilot');
         }
 
-        const queryEmbedding = await this.createEmbedding(query);
-        const results = await this.index.queryItems(queryEmbedding, topK);
+        await this.beginIndexUpdate(this.workspacePartition, this.repoPartition);
+        let imported = 0;
+        try {
+            if (!merge) {
+                for (const partition of [this.workspacePartition, this.repoPartition]) {
+                    await partition.purgeFiles('');
+                    for (const item of await partition.index!.listItems()) {
+                        await partition.deleteItem(item.id);
+                    }
+                    partition.sources.clear();
+                }
+            }
 
-        return results.map(result => {
-            const metadata = result.item.metadata as any;
-            return {
-                text: metadata.text || '',
-                metadata: metadata as DocumentMetadata,
-                score: result.score
-            };
-        });
+            // A source that exists here already keeps its local id
+            const sourceIds = new Map<string, string>();
+            for (const source of snapshot.sources ?? []) {
+                const partition = source.kind === 'repo' ? this.repoPartition : this.workspacePartition;
+                sourceIds.set(source.id, partition.sources.adopt(source));
+            }
+            for (const folder of snapshot.indexedFolders ?? []) {
+                this.registerLegacyFolder(folder, snapshot.fileManifest);
+            }
+
+            const itemsById = new Map(snapshot.items.map(item => [item.id, item]));
+
+            for (const [key, entry] of Object.entries(snapshot.fileManifest)) {
+                const partition = key.startsWith('github:') ? this.repoPartition : this.workspacePartition;
+                const existing = partition.fileManifest.get(key);
+                if (existing) {
+                    for (const id of existing.itemIds) {
+                        await partition.deleteItem(id);
+                    }
+                }
+
+                const sourceId = entry.sourceId ? sourceIds.get(entry.sourceId) : undefined;
+                for (const id of entry.itemIds) {
+                    const item = itemsById.get(id);
+                    if (!item) {
+                        continue;
+                    }
+                    const metadata = { ...item.metadata, sourceId } as unknown as DocumentMetadata;
+                    await partition.index!.upsertItem({ id, vector: item.vector, metadata: metadata as any });
+                    partition.lexicalIndex.addDocument(id, `${metadata.file}\n${metadata.text || ''}`);
+                }
+
+                partition.fileManifest.set(key, { ...entry, sourceId });
+                imported++;
+            }
+
+            // Files from archives without sources belong to whichever source covers them
+            for (const key of this.repoPartition.fileManifest.keys()) {
+                this.repoPartition.sources.ensure('repo', parseManifestKey(key).repo!);
+            }
+            await this.assignSourceIds(this.workspacePartition);
+            await this.assignSourceIds(this.repoPartition);
+        } catch (error) {
+            // Leave the indexes as they were before the import
+            await this.cancelIndexUpdate();
+            throw error;
+        }
+
+        await this.endIndexUpdate();
+        for (const partition of [this.workspacePartition, this.repoPartition]) {
+            await partition.saveFileManifest();
+            await partition.sources.save();
+        }
+
+        return imported;
     }
 
+    /**
+     * Clears the workspace index and the shared repository index, including
+     * the indexes built with other embedding models.
+     */
     async clearIndex(): Promise<void> {
-        if (!this.index) {
+        const release = await this.acquireUpdateLock();
+        try {
+            await this.workspacePartition.clear();
+            await this.repoPartition.clear();
+        } finally {
+            release();
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * Lists the workspace's sources, then the repositories.
+     */
+    getSources(): Source[] {
+        return [...this.workspacePartition.sources.list(), ...this.repoPartition.sources.list()];
+    }
+
+    getSource(id: string): Source | undefined {
+        return this.workspacePartition.sources.get(id) ?? this.repoPartition.sources.get(id);
+    }
+
+    /**
+     * Replaces a source's include and exclude patterns; empty lists fall back
+     * to the settings. Takes effect when the source is indexed next.
+     */
+    async setSourceFilters(id: string, include: string[], exclude: string[]): Promise<void> {
+        const partition = this.workspacePartition.sources.get(id) ? this.workspacePartition : this.repoPartition;
+        const source = partition.sources.get(id);
+        if (!source) {
             return;
         }
+        source.include = include.length > 0 ? include : undefined;
+        source.exclude = exclude.length > 0 ? exclude : undefined;
+        await partition.sources.save();
+        this.changeEmitter.fire();
+    }
 
-        await this.index.beginUpdate();
-        await this.index.deleteIndex();
-        await this.index.createIndex();
-        await this.index.endUpdate();
+    /**
+     * Registers a source for each cloned repository that has none yet, e.g.
+     * repositories that were only indexed with another embedding model
+     * before sources had ids.
+     */
+    async registerRepoSources(repoKeys: string[]): Promise<void> {
+        const missing = repoKeys.filter(repoKey => !this.repoPartition.sources.find('repo', repoKey));
+        if (missing.length === 0) {
+            return;
+        }
+        missing.forEach(repoKey => this.repoPartition.sources.ensure('repo', repoKey));
+        await this.repoPartition.sources.save();
+        this.changeEmitter.fire();
+    }
 
-        // Clear indexed folders tracking
-        this.indexedFolders.clear();
-        await this.saveIndexedFolders();
+    /**
+     * Lists every indexed file of the active model with its manifest entry.
+     */
+    listIndexedFiles(): IndexedFile[] {
+        return [this.workspacePartition, this.repoPartition].flatMap(partition =>
+            Array.from(partition.fileManifest.entries()).map(([key, entry]) => ({ ...parseManifestKey(key), entry }))
+        );
+    }
+
+    /**
+     * Lists the files whose last indexing attempt failed, with the error.
+     */
+    listFailedFiles(): FailedFile[] {
+        return [this.workspacePartition, this.repoPartition].flatMap(partition =>
+            Array.from(partition.failedFiles.entries()).map(([key, failure]) => ({
+                ...parseManifestKey(key),
+                error: failure.error,
+                failedAt: new Date(failure.failedAt)
+            }))
+        );
     }
 
-    getIndexedFolders(): string[] {
-        return Array.from(this.indexedFolders);
+    /**
+     * On-disk size in bytes of the active model's workspace and repository indexes.
+     */
+    async getDiskUsage(): Promise<{ workspace: number; repositories: number }> {
+        return {
+            workspace: await this.workspacePartition.getDiskUsage(),
+            repositories: await this.repoPartition.getDiskUsage()
+        };
     }
 
-    private async loadIndexedFolders(): Promise<void> {
+    /**
+     * Counts the indexed files and chunks under a source's root, including
+     * files that belong to a nested source.
+     */
+    getSourceStats(source: Source): SourceStats {
+        const partition = source.kind === 'repo' ? this.repoPartition : this.workspacePartition;
+        const stats: SourceStats = { files: 0, chunks: 0 };
+        for (const [key, entry] of partition.fileManifest.entries()) {
+            if (!sourceCovers(source, parseManifestKey(key))) {
+                continue;
+            }
+            stats.files++;
+            stats.chunks += entry.itemIds.length;
+            const indexedAt = entry.indexedAt ? new Date(entry.indexedAt) : undefined;
+            if (indexedAt && (!stats.lastIndexedAt || indexedAt > stats.lastIndexedAt)) {
+                stats.lastIndexedAt = indexedAt;
+            }
+        }
+        return stats;
+    }
+
+    /**
+     * Records the counts of freshly indexed sources in the registry, so they
+     * are known for models the sources were not indexed with.
+     */
+    private async saveSourceStats(partition: IndexPartition, sources: Source[]): Promise<void> {
+        for (const source of sources) {
+            const { files, chunks } = this.getSourceStats(source);
+            source.stats = { files, chunks, indexedAt: new Date().toISOString() };
+        }
+        await partition.sources.save();
+    }
+
+    /**
+     * Restores a model and its indexes after switching away from it failed.
+     */
+    private async reopenModel(modelName: string): Promise<void> {
         try {
-            const data = await fs.readFile(this.indexedFoldersPath, 'utf-8');
-            const folders: string[] = JSON.parse(data);
-            this.indexedFolders = new Set(folders);
+            this.repoPartition.close();
+            this.workspacePartition.close();
+            await this.loadEmbedder(modelName);
+            await this.repoPartition.open(modelName, this.dimensions, getVectorStorageOptions());
+            await this.workspacePartition.open(modelName, this.dimensions, getVectorStorageOptions());
         } catch (error) {
-            // File doesn't exist or is invalid, start fresh
-            this.indexedFolders = new Set();
+            console.error(`Failed to reopen the index for ${modelName}:`, error);
         }
     }
 
-    private async saveIndexedFolders(): Promise<void> {
+    private async loadEmbedder(modelName: string): Promise<void> {
+        // Unset until the workers have loaded the model, so nothing embeds with the old one
+        this.modelName = '';
+        this.dimensions = await this.embeddingService.load(modelName);
+        this.modelName = modelName;
+    }
+
+    /**
+     * Earlier versions kept a single index directly in global storage. Adopt
+     * it as the active model's index if its vectors have the right dimension.
+     */
+    private async migrateLegacyIndex(): Promise<void> {
+        const legacyIndexPath = path.join(this.storagePath, '.rag-index');
+        const legacyIndex = new LocalIndex(legacyIndexPath);
+        if (!await legacyIndex.isIndexCreated()) {
+            return;
+        }
+
+        const items = await legacyIndex.listItems();
+        const legacyDimensions = items.length > 0 ? items[0].vector.length : this.dimensions;
+
+        if (legacyDimensions !== this.dimensions) {
+            // Not awaited, so activation does not wait for the user to answer
+            vscode.window.showWarningMessage(
+                `An index from a previous version of RAG Pilot has ${legacyDimensions}-dimension vectors and cannot be used with ${this.modelName}.`,
+                'Delete Old Index'
+            ).then(async selection => {
+                if (selection === 'Delete Old Index') {
+                    await fs.rm(legacyIndexPath, { recursive: true, force: true });
+                    for (const file of ['indexed-folders.json', 'file-manifest.json', 'lexical-index.json']) {
+                        await fs.rm(path.join(this.storagePath, file), { force: true });
+                    }
+                }
+            });
+            return;
+        }
+
+        const partition = this.repoPartition;
+        partition.useModelNamespace(this.modelName);
         try {
-            // Ensure parent directory exists
-            const parentDir = path.dirname(this.indexedFoldersPath);
-            await fs.mkdir(parentDir, { recursive: true });
-            
-            const folders = Array.from(this.indexedFolders);
-            await fs.writeFile(
-                this.indexedFoldersPath,
-                JSON.stringify(folders, null, 2),
-                'utf-8'
-            );
+            await fs.access(partition.namespacePath);
+            // The model already has its own index; leave the legacy one alone
+            return;
+        } catch (error) {
+            // Namespace does not exist yet, move the legacy files into it
+        }
+
+        console.log(`Migrating legacy index to ${partition.namespacePath}`);
+        await fs.mkdir(partition.namespacePath, { recursive: true });
+        const moves: Array<[string, string]> = [
+            [legacyIndexPath, getVectorIndexPath(partition.namespacePath, 'vectra')],
+            [path.join(this.storagePath, 'indexed-folders.json'), partition.indexedFoldersPath],
+            [path.join(this.storagePath, 'file-manifest.json'), partition.fileManifestPath],
+            [path.join(this.storagePath, 'lexical-index.json'), path.join(partition.namespacePath, 'lexical-index.json')]
+        ];
+        for (const [from, to] of moves) {
+            try {
+                await fs.rename(from, to);
+            } catch (error) {
+                // Optional file that older versions did not write
+            }
+        }
+    }
+
+    /**
+     * Workspace chunks used to share the global index with repositories, so
+     * it is unknown which project they came from. Drop them from the shared
+     * index and ask for the workspace to be re-indexed into its own index.
+     */
+    private async purgeSharedWorkspaceChunks(): Promise<void> {
+        const partition = this.repoPartition;
+        const hasWorkspaceChunks = Array.from(partition.fileManifest.keys()).some(key => key.startsWith('workspace:'));
+        if (!hasWorkspaceChunks) {
+            return;
+        }
+
+        await this.beginIndexUpdate(partition);
+        let removed: number;
+        try {
+            removed = await partition.purgeFiles(getManifestKey({ file: '', source: 'workspace' }));
         } catch (error) {
-            console.error('Failed to save indexed folders:', error);
+            await this.cancelIndexUpdate();
+            throw error;
+        }
+        await this.endIndexUpdate();
+        await partition.saveFileManifest();
+
+        console.log(`Removed ${removed} workspace files from the shared repository index`);
+        if (removed > 0 && !this.workspacePartition.hasContent()) {
+            // Not awaited, so activation does not wait for the user to answer
+            vscode.window.showInformationMessage(
+                'Workspace files are now indexed separately for each workspace. Re-index this workspace to search its files again.',
+                'Index Workspace'
+            ).then(selection => {
+                if (selection === 'Index Workspace') {
+                    vscode.commands.executeCommand('copilot-rag.indexWorkspace');
+                }
+            });
         }
     }
 
-    private async createEmbedding(text: string): Promise<number[]> {
-        if (!this.embedder) {
-            throw new Error('Embedder not initialized');
+    /**
+     * Registers the sources of an index built before sources had ids (the
+     * namespace's folder list and the repositories in the manifest) and
+     * labels their chunks. Runs while opening an index, so it does not take
+     * the update lock, which the caller may hold.
+     */
+    private async adoptSources(partition: IndexPartition): Promise<void> {
+        // The repository index's folder list is from when workspace files were indexed there too
+        const legacyFolders = await partition.takeLegacyFolders();
+        if (partition === this.workspacePartition) {
+            const fileManifest = Object.fromEntries(partition.fileManifest);
+            legacyFolders.forEach(folder => this.registerLegacyFolder(folder, fileManifest));
+        }
+        for (const key of partition.fileManifest.keys()) {
+            const file = parseManifestKey(key);
+            if (file.source === 'github') {
+                partition.sources.ensure('repo', file.repo!);
+            }
+        }
+        await partition.sources.save();
+
+        const unassigned = Array.from(partition.fileManifest.values())
+            .some(entry => !entry.sourceId || !partition.sources.get(entry.sourceId));
+        if (!unassigned) {
+            return;
+        }
+
+        await partition.beginUpdate();
+        try {
+            const assigned = await this.assignSourceIds(partition);
+            await partition.endUpdate();
+            console.log(`Assigned sources to ${assigned} files in ${partition.namespacePath}`);
+        } catch (error) {
+            partition.index?.cancelUpdate();
+            throw error;
+        }
+        await partition.saveFileManifest();
+    }
+
+    /**
+     * Registers an entry of the folder list kept before sources had ids.
+     * Single files were listed like folders; the manifest tells them apart.
+     */
+    private registerLegacyFolder(folder: string, fileManifest: Record<string, IndexedFileEntry>): void {
+        const sources = this.workspacePartition.sources;
+        if (folder === 'Entire Workspace') {
+            sources.ensure('workspace', '');
+        } else if (fileManifest[getManifestKey({ file: folder, source: 'workspace' })]) {
+            sources.ensure('file', folder);
+        } else {
+            sources.ensure('folder', folder);
+        }
+    }
+
+    /**
+     * Gives each file without a registered source the most specific source
+     * covering it and relabels its chunks. Files no source covers stay
+     * unassigned. Must be called inside an update; returns the number of files relabelled.
+     */
+    private async assignSourceIds(partition: IndexPartition): Promise<number> {
+        let assigned = 0;
+        for (const [key, entry] of partition.fileManifest.entries()) {
+            if (entry.sourceId && partition.sources.get(entry.sourceId)) {
+                continue;
+            }
+            const owner = partition.sources.findOwner(parseManifestKey(key));
+            if (owner) {
+                await this.relabelChunks(partition, entry, { sourceId: owner.id });
+                assigned++;
+            }
+        }
+        return assigned;
+    }
+
+    /**
+     * vectra allows only one update at a time, so manual indexing, background
+     * re-indexing and model switches queue behind each other here.
+     */
+    private async acquireUpdateLock(): Promise<() => void> {
+        const previous = this.updateLock;
+        let release!: () => void;
+        this.updateLock = new Promise<void>(resolve => release = resolve);
+        await previous;
+        return release;
+    }
+
+    private async beginIndexUpdate(...partitions: IndexPartition[]): Promise<void> {
+        const release = await this.acquireUpdateLock();
+
+        this.releaseUpdateLock = release;
+        this.embeddedChunks = 0;
+        this.unembeddedFiles = 0;
+        this.updateStartedAt = Date.now();
+        const begun: IndexPartition[] = [];
+        try {
+            for (const partition of partitions) {
+                await partition.beginUpdate();
+                begun.push(partition);
+            }
+            this.updatingPartitions = begun;
+        } catch (error) {
+            for (const partition of begun) {
+                partition.index?.cancelUpdate();
+            }
+            this.releaseUpdateLock = null;
+            release();
+            throw error;
+        }
+    }
+
+    /**
+     * Embeds what is still queued and saves the update. Files whose batch
+     * failed to embed are taken out of the summary's indexed count.
+     */
+    private async endIndexUpdate(summary?: IndexingSummary): Promise<void> {
+        const release = this.releaseUpdateLock;
+        const partitions = this.updatingPartitions;
+        this.releaseUpdateLock = null;
+        this.updatingPartitions = [];
+        let failure: unknown;
+        try {
+            try {
+                await this.flushPendingDocuments();
+            } catch (error) {
+                failure = error;
+            }
+
+            // Every partition leaves update mode: saved, or read back from disk if the flush failed
+            for (const partition of partitions) {
+                try {
+                    if (failure === undefined) {
+                        await partition.endUpdate();
+                    } else {
+                        await partition.cancelUpdate();
+                    }
+                } catch (error) {
+                    partition.index?.cancelUpdate();
+                    failure ??= error;
+                }
+            }
+        } finally {
+            release?.();
+            this.changeEmitter.fire();
+        }
+        if (failure !== undefined) {
+            throw failure;
+        }
+        if (summary) {
+            summary.indexed -= this.unembeddedFiles;
+        }
+    }
+
+    /**
+     * Ends an update without saving it, for changes that must be applied
+     * completely or not at all.
+     */
+    private async cancelIndexUpdate(): Promise<void> {
+        const release = this.releaseUpdateLock;
+        const partitions = this.updatingPartitions;
+        this.releaseUpdateLock = null;
+        this.updatingPartitions = [];
+        this.pendingDocuments = [];
+        try {
+            for (const partition of partitions) {
+                await partition.cancelUpdate();
+            }
+        } finally {
+            release?.();
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * Remembers why a file could not be indexed, for the status report.
+     * Saved with the next `endIndexUpdate`.
+     */
+    private recordFailure(fileMetadata: Pick<DocumentMetadata, 'file' | 'source' | 'repo'>, error: unknown): void {
+        this.partitionFor(fileMetadata.source).failedFiles.set(getManifestKey(fileMetadata), {
+            error: error instanceof Error ? error.message : String(error),
+            failedAt: new Date().toISOString()
+        });
+    }
+
+    private partitionFor(source: DocumentMetadata['source']): IndexPartition {
+        return source === 'github' ? this.repoPartition : this.workspacePartition;
+    }
+
+    /**
+     * Reads a file to index unless the guardrails skip it; a skipped file's
+     * previous chunks are dropped and it is added to the summary. Size and
+     * binary content are checked before the file is read. Documents with an
+     * extractor (PDF, Word, HTML, notebooks) are parsed on the extraction worker instead of `read`.
+     * Must be called inside an index update.
+     */
+    private async readGuardedFile(
+        fileMetadata: Pick<DocumentMetadata, 'file' | 'source' | 'repo'>,
+        filePath: string,
+        read: () => Promise<string>,
+        guards: FileGuardOptions,
+        summary: IndexingSummary
+    ): Promise<string | DocumentSection[] | undefined> {
+        let skip = await checkFile(filePath, guards);
+        let content: string | DocumentSection[] | undefined;
+        if (!skip && getDocumentExtractor(filePath)) {
+            content = await this.extractionService.extract(filePath);
+            skip = checkExtractedText(content.map(section => section.text).join('\n\n'), guards);
+        } else if (!skip) {
+            content = await read();
+            skip = checkContent(content, guards);
+        }
+        if (!skip) {
+            return content;
         }
 
-        const output = await this.embedder(text, { pooling: 'mean', normalize: true });
-        return Array.from(output.data as Float32Array);
+        console.log(`Skipping ${fileMetadata.file}: ${skip.message}`);
+        await this.partitionFor(fileMetadata.source).removeFile(getManifestKey(fileMetadata));
+        summary.skipped.push({
+            source: fileMetadata.source ?? 'workspace',
+            ...(fileMetadata.repo ? { repo: fileMetadata.repo } : {}),
+            file: fileMetadata.file,
+            kind: skip.kind,
+            reason: skip.message
+        });
+        return undefined;
     }
 
-    private chunkDocument(text: string, chunkSize: number, overlap: number): Array<{ text: string; startLine: number }> {
-        const lines = text.split('\n');
-        const chunks: Array<{ text: string; startLine: number }> = [];
+    /**
+     * Queues a file's chunks for embedding unless its content hash matches
+     * the manifest. Chunks from a previous version of the file are replaced
+     * when the queue is flushed, at the latest by `endIndexUpdate`.
+     * Must be called inside an index update. Returns true if the file was (re)indexed.
+     */
+    private async indexDocument(
+        content: string | DocumentSection[],
+        documentMetadata: Pick<DocumentMetadata, 'file' | 'source' | 'repo' | 'ref'>
+    ): Promise<boolean> {
+        const partition = this.partitionFor(documentMetadata.source);
+        const key = getManifestKey(documentMetadata);
+        const hash = hashContent(typeof content === 'string' ? content : JSON.stringify(content));
+        const existing = partition.fileManifest.get(key);
+        partition.failedFiles.delete(key);
+
+        const sourceId = partition.sources.findOwner(documentMetadata)?.id;
+        const fileMetadata = { ...documentMetadata, ...(sourceId ? { sourceId } : {}) };
+
+        if (existing && existing.hash === hash && existing.chunkerVersion === CHUNKER_VERSION) {
+            if (existing.ref !== fileMetadata.ref || existing.sourceId !== sourceId) {
+                // Same content at another ref or for another source: relabel the chunks, keeping their embeddings
+                await this.relabelChunks(partition, existing, { ref: fileMetadata.ref, sourceId });
+            }
+            return false;
+        }
 
-        for (let i = 0; i < lines.length; i += chunkSize - overlap) {
-            const chunk = lines.slice(i, i + chunkSize).join('\n');
-            if (chunk.trim().length > 0) {
-                chunks.push({
-                    text: chunk,
-                    startLine: i + 1
+        // Chunks of several files are embedded together, so queue the file
+        // until enough chunks for a full batch per worker have accumulated
+        const chunks = typeof content === 'string' ? chunkDocument(content, fileMetadata.file) : chunkSections(content);
+        this.pendingDocuments.push({ partition, key, hash, fileMetadata, chunks });
+        this.pendingChunkCount += chunks.length;
+        if (this.pendingChunkCount >= this.embeddingService.getQueueTarget()) {
+            await this.flushPendingDocuments();
+        }
+        return true;
+    }
+
+    /**
+     * Embeds the queued files and replaces their chunks in the index. Files
+     * whose batch fails keep their previous chunks and are recorded as failed.
+     * Must be called inside an index update.
+     */
+    private async flushPendingDocuments(): Promise<void> {
+        const documents = this.pendingDocuments;
+        this.pendingDocuments = [];
+        this.pendingChunkCount = 0;
+        if (documents.length === 0) {
+            return;
+        }
+
+        let vectors: number[][];
+        try {
+            vectors = await this.embeddingService.embed(documents.flatMap(document => document.chunks.map(chunk => chunk.text)));
+        } catch (error) {
+            console.error('Failed to embed batch:', error);
+            documents.forEach(document => this.recordFailure(document.fileMetadata, error));
+            this.unembeddedFiles += documents.length;
+            return;
+        }
+
+        let offset = 0;
+        for (const { partition, key, hash, fileMetadata, chunks } of documents) {
+            const existing = partition.fileManifest.get(key);
+            if (existing) {
+                for (const id of existing.itemIds) {
+                    await partition.deleteItem(id);
+                }
+            }
+
+            const itemIds: string[] = [];
+            for (const chunk of chunks) {
+                const item = await partition.index!.insertItem({
+                    vector: vectors[offset++],
+                    metadata: {
+                        ...fileMetadata,
+                        ...(chunk.startLine ? { line: chunk.startLine, endLine: chunk.endLine } : {}),
+                        ...(chunk.page ? { page: chunk.page } : {}),
+                        ...(chunk.section ? { section: chunk.section } : {}),
+                        ...(chunk.cell !== undefined ? { cell: chunk.cell } : {}),
+                        ...(chunk.symbol ? { symbol: chunk.symbol } : {}),
+                        text: chunk.text
+                    } as any
                 });
+                itemIds.push(item.id);
+                partition.lexicalIndex.addDocument(item.id, `${fileMetadata.file}\n${chunk.text}`);
             }
+
+            partition.fileManifest.set(key, {
+                hash,
+                chunkerVersion: CHUNKER_VERSION,
+                ...(fileMetadata.ref ? { ref: fileMetadata.ref } : {}),
+                ...(fileMetadata.sourceId ? { sourceId: fileMetadata.sourceId } : {}),
+                itemIds,
+                indexedAt: new Date().toISOString()
+            });
+        }
+
+        this.embeddedChunks += vectors.length;
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Embedding throughput of the running index update, for progress messages.
+     */
+    private describeThroughput(): string {
+        const seconds = (Date.now() - this.updateStartedAt) / 1000;
+        if (this.embeddedChunks === 0 || seconds <= 0) {
+            return '';
         }
+        return ` · ${(this.embeddedChunks / seconds).toFixed(1)} chunks/s`;
+    }
 
-        return chunks;
+    /**
+     * Updates the ref or source recorded on a file's chunks and manifest
+     * entry without re-embedding them. Must be called inside an index update.
+     */
+    private async relabelChunks(
+        partition: IndexPartition,
+        entry: IndexedFileEntry,
+        changes: Partial<Pick<DocumentMetadata, 'ref' | 'sourceId'>>
+    ): Promise<void> {
+        const index = partition.index!;
+        for (const id of entry.itemIds) {
+            const item = await index.getItem(id);
+            if (item) {
+                await index.upsertItem({ id, vector: item.vector, metadata: { ...item.metadata, ...changes } as any });
+            }
+        }
+        Object.assign(entry, changes);
+    }
+
+    private async createEmbedding(text: string): Promise<number[]> {
+        return (await this.embeddingService.embed([text]))[0];
+    }
+
+    dispose(): void {
+        this.embeddingService.dispose();
+        this.extractionService.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+const SKIP_KIND_LABELS: Record<SkipKind, string> = {
+    binary: 'binary',
+    size: 'too large',
+    lineLength: 'minified',
+    generated: 'generated',
+    noText: 'without text'
+};
+
+/**
+ * Counts of an indexing run for notifications and chat, e.g.
+ * `(12 indexed, 40 unchanged, 2 skipped: 1 binary, 1 too large)`.
+ */
+export function formatIndexingSummary(summary: IndexingSummary): string {
+    const parts = [`${summary.indexed} indexed`, `${summary.unchanged} unchanged`];
+    if (summary.removed > 0) {
+        parts.push(`${summary.removed} removed`);
+    }
+    if (summary.skipped.length > 0) {
+        const counts = new Map<SkipKind, number>();
+        summary.skipped.forEach(file => counts.set(file.kind, (counts.get(file.kind) ?? 0) + 1));
+        const reasons = Array.from(counts.entries()).map(([kind, count]) => `${count} ${SKIP_KIND_LABELS[kind]}`);
+        parts.push(`${summary.skipped.length} skipped: ${reasons.join(', ')}`);
     }
+    return `(${parts.join(', ')})`;
 }